@@ -0,0 +1,52 @@
+// scripts/extend-schedules.ts
+// Usage: npm run schedules:extend [-- --dry-run] [--threshold-days=60] [--limit=N] [--json]
+// Needs STRIPE_SECRET_KEY in the environment. Exits non-zero when any schedule failed.
+import { getStripe } from "@/lib/stripe/stripe";
+import { EXTEND_THRESHOLD_DAYS, extendEvergreenSchedules } from "@/lib/stripe/evergreen";
+
+const args = process.argv.slice(2);
+const flag = (name: string) => args.includes(`--${name}`);
+const option = (name: string) => {
+  const arg = args.find((a) => a.startsWith(`--${name}=`));
+  return arg ? Number(arg.slice(name.length + 3)) : undefined;
+};
+
+const dryRun = flag("dry-run");
+const thresholdDays = option("threshold-days") ?? EXTEND_THRESHOLD_DAYS;
+const limit = option("limit");
+const day = (epoch: number | null | undefined) =>
+  epoch ? new Date(epoch * 1000).toISOString().slice(0, 10) : "open";
+
+async function main() {
+  const results = await extendEvergreenSchedules(getStripe(), { dryRun, thresholdDays, limit });
+
+  if (flag("json")) {
+    console.log(JSON.stringify({ dryRun, thresholdDays, results }, null, 2));
+  } else {
+    for (const r of results) {
+      const head = `${r.status.padEnd(8)} ${r.scheduleId} (${r.subscriptionId ?? "no subscription"})`;
+      if (!r.appended) {
+        console.log(`${head}: ${r.reason ?? ""}`);
+        continue;
+      }
+      console.log(`${head}: covered until ${day(r.coveredUntil)} → ${day(r.extendedUntil)}`);
+      for (const p of r.appended) {
+        const items = p.items.map((i) => `${i.price}×${i.quantity}`).join(", ");
+        console.log(`    ${day(p.start)} – ${day(p.end)}  ${items}`);
+      }
+      if (r.pendingPhases) console.log(`    ${r.pendingPhases} phase(s) still pending`);
+    }
+    const count = (s: string) => results.filter((r) => r.status === s).length;
+    console.log(
+      `\n${results.length} schedule(s) checked${dryRun ? " (dry run)" : ""}: ` +
+        `${count(dryRun ? "planned" : "extended")} ${dryRun ? "to extend" : "extended"}, ` +
+        `${count("skipped")} skipped, ${count("failed")} failed`
+    );
+  }
+  process.exit(results.some((r) => r.status === "failed") ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(2);
+});
@@ -0,0 +1,54 @@
+// scripts/import-metadata.ts
+// Usage: npm run db:import-metadata [-- --dry-run] [--clear-metadata] [--subscription=sub_…] [--limit=N] [--json]
+// Needs STRIPE_SECRET_KEY in the environment; writes to DATABASE_PATH (default .data/tidal.sqlite).
+// Exits 1 when any subscription failed to import.
+import { getStripe } from "@/lib/stripe/stripe";
+import { importMetadata } from "@/lib/db/importMetadata";
+
+const args = process.argv.slice(2);
+const flag = (name: string) => args.includes(`--${name}`);
+const option = (name: string) => {
+  const arg = args.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : undefined;
+};
+
+const dryRun = flag("dry-run");
+const clearMetadata = flag("clear-metadata");
+const subscriptionId = option("subscription");
+const limit = option("limit") ? Number(option("limit")) : undefined;
+
+async function main() {
+  const results = await importMetadata(getStripe(), {
+    dryRun,
+    clearMetadata,
+    subscriptionId,
+    limit,
+  });
+
+  if (flag("json")) {
+    console.log(JSON.stringify({ dryRun, clearMetadata, results }, null, 2));
+  } else {
+    for (const r of results) {
+      const head = `${r.status.padEnd(8)} ${r.subscriptionId}`;
+      const detail =
+        r.reason ??
+        (r.properties != null
+          ? `${r.properties} propert${r.properties === 1 ? "y" : "ies"}` +
+            (r.addresses ? "" : ", addresses left on the customer") +
+            (r.cleared ? ", metadata cleared" : "")
+          : "");
+      console.log(detail ? `${head}: ${detail}` : head);
+    }
+    const count = (s: string) => results.filter((r) => r.status === s).length;
+    console.log(
+      `\n${results.length} subscription(s)${dryRun ? " (dry run)" : ""}: ${count("imported")} imported, ` +
+        `${count("exists")} already present, ${count("skipped")} skipped, ${count("failed")} failed`
+    );
+  }
+  process.exit(results.some((r) => r.status === "failed") ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(2);
+});
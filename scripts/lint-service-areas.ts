@@ -0,0 +1,38 @@
+// scripts/lint-service-areas.ts
+// Usage: npm run lint:areas [-- path/to/rules.json] [--json]
+// Exits non-zero when the file fails validation or has error-level lint issues.
+import { readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import { parseAreaRules } from "@/lib/serviceAreas/serviceAreas.schema";
+import { formatLintIssue, lintAreaRules, lintErrors } from "@/lib/serviceAreas/lint";
+
+const args = process.argv.slice(2);
+const asJson = args.includes("--json");
+const file = path.resolve(
+  args.find((a) => !a.startsWith("--")) ??
+    process.env.SERVICE_AREA_RULES_PATH ??
+    "config/service-areas.json"
+);
+
+let rules;
+try {
+  rules = parseAreaRules(JSON.parse(readFileSync(file, "utf8")));
+} catch (err) {
+  console.error(`✖ ${file} is not a valid rule file`);
+  console.error(err instanceof z.ZodError ? z.prettifyError(err) : (err as Error).message);
+  process.exit(2);
+}
+
+const issues = lintAreaRules(rules);
+if (asJson) {
+  console.log(JSON.stringify({ file, issues }, null, 2));
+} else {
+  for (const i of issues) console.log(formatLintIssue(i));
+  const errors = lintErrors(issues).length;
+  console.log(
+    `${issues.length ? "\n" : ""}${rules.length} rules checked in ${file}: ` +
+      `${errors} error(s), ${issues.length - errors} warning(s)`
+  );
+}
+process.exit(lintErrors(issues).length ? 1 : 0);
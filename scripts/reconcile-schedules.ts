@@ -0,0 +1,55 @@
+// scripts/reconcile-schedules.ts
+// Usage: npm run schedules:drift [-- --repair] [--subscription=sub_…] [--limit=N] [--json]
+// Needs STRIPE_SECRET_KEY in the environment. Exits 1 when drift remains unrepaired or a check failed.
+import { getStripe } from "@/lib/stripe/stripe";
+import { reconcileSchedules } from "@/lib/stripe/drift";
+
+const args = process.argv.slice(2);
+const flag = (name: string) => args.includes(`--${name}`);
+const option = (name: string) => {
+  const arg = args.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : undefined;
+};
+
+const repair = flag("repair");
+const subscriptionId = option("subscription");
+const limit = option("limit") ? Number(option("limit")) : undefined;
+const day = (epoch: number | null | undefined) =>
+  epoch ? new Date(epoch * 1000).toISOString().slice(0, 10) : "open";
+
+async function main() {
+  const reports = await reconcileSchedules(getStripe(), { repair, subscriptionId, limit });
+
+  if (flag("json")) {
+    console.log(JSON.stringify({ repair, reports }, null, 2));
+  } else {
+    for (const r of reports) {
+      const head = `${r.status.padEnd(8)} ${r.subscriptionId} (${r.scheduleId ?? "no schedule"})`;
+      console.log(r.reason ? `${head}: ${r.reason}` : head);
+      if (r.idem && !r.idem.match) {
+        console.log(`    phases_idem ${r.idem.stored ?? "missing"} ≠ ${r.idem.computed} (addr_rules changed since build)`);
+      }
+      for (const a of r.ruleChanges) {
+        console.log(`    address ${a.index} (${a.city} ${a.zip}): ${a.reasons.join("; ")}`);
+      }
+      for (const d of r.differences) {
+        console.log(
+          `    ${day(d.start)} – ${day(d.end)}  ${d.price}: expected ${d.expected}, live ${d.actual}`
+        );
+      }
+      if (r.repairedPhases) console.log(`    rewritten with ${r.repairedPhases} phase(s)`);
+    }
+    const count = (s: string) => reports.filter((r) => r.status === s).length;
+    console.log(
+      `\n${reports.length} subscription(s) checked: ${count("ok")} ok, ` +
+        `${count("drift")} drifted, ${count("repaired")} repaired, ` +
+        `${count("skipped")} skipped, ${count("failed")} failed`
+    );
+  }
+  process.exit(reports.some((r) => r.status === "drift" || r.status === "failed") ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(2);
+});
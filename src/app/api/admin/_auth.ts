@@ -0,0 +1,43 @@
+// src/app/api/admin/_auth.ts
+import { NextResponse } from "next/server";
+import { createHash, timingSafeEqual } from "crypto";
+import { requireAdminToken } from "@/lib/env/env.server";
+
+// Compare digests so differing token lengths don't short-circuit.
+const digest = (s: string) => createHash("sha256").update(s).digest();
+
+/**
+ * Bearer-token gate for /api/admin/*. Returns a response to send back when the
+ * caller is not allowed, or null to continue.
+ */
+export function rejectUnlessAdmin(req: Request): NextResponse | null {
+  let expected: string;
+  try {
+    expected = requireAdminToken();
+  } catch {
+    return NextResponse.json(
+      { error: "Admin API is not configured" },
+      { status: 503 }
+    );
+  }
+  const header = req.headers.get("authorization") ?? "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!token || !timingSafeEqual(digest(token), digest(expected))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  return null;
+}
+
+/** Who is making the change: X-Admin-User header, else `author` from the body. */
+export function adminAuthor(req: Request, body?: { author?: unknown }): string | null {
+  const fromHeader = req.headers.get("x-admin-user")?.trim();
+  if (fromHeader) return fromHeader;
+  return typeof body?.author === "string" && body.author.trim()
+    ? body.author.trim()
+    : null;
+}
+
+export const isDryRun = (req: Request) => {
+  const v = new URL(req.url).searchParams.get("dryRun");
+  return v === "1" || v === "true";
+};
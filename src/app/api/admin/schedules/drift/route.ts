@@ -0,0 +1,45 @@
+// src/app/api/admin/schedules/drift/route.ts
+import { NextResponse } from "next/server";
+import { serverOnly } from "@/lib/validation/server-only";
+import { getStripe } from "@/lib/stripe/stripe";
+import { reconcileSchedules } from "@/lib/stripe/drift";
+import { isDryRun, rejectUnlessAdmin } from "../../_auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300; // walks every live subscription
+
+async function run(req: Request, repair: boolean) {
+  serverOnly();
+  const denied = rejectUnlessAdmin(req);
+  if (denied) return denied;
+
+  const params = new URL(req.url).searchParams;
+  const subscriptionId = params.get("subscriptionId") ?? undefined;
+  const rawLimit = params.get("limit");
+  const limit = rawLimit == null ? undefined : Number(rawLimit);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    return NextResponse.json({ error: "limit must be a positive integer" }, { status: 400 });
+  }
+
+  try {
+    const reports = await reconcileSchedules(getStripe(), { subscriptionId, repair, limit });
+    const drifted = reports.filter((r) => r.status === "drift" || r.status === "repaired").length;
+    return NextResponse.json({ repair, drifted, reports });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error("schedule drift error:", msg);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+// Report schedules that no longer match their addr_rules under the current rules.
+// `?subscriptionId=sub_…` checks one; `?limit=N` caps the batch.
+export async function GET(req: Request) {
+  return run(req, false);
+}
+
+// Same check, then rewrite the future phases of every drifted schedule. `?dryRun=1` only reports.
+export async function POST(req: Request) {
+  return run(req, !isDryRun(req));
+}
@@ -0,0 +1,37 @@
+// src/app/api/admin/schedules/extend/route.ts
+import { NextResponse } from "next/server";
+import { serverOnly } from "@/lib/validation/server-only";
+import { getStripe } from "@/lib/stripe/stripe";
+import { EXTEND_THRESHOLD_DAYS, extendEvergreenSchedules } from "@/lib/stripe/evergreen";
+import { isDryRun, rejectUnlessAdmin } from "../../_auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300; // walks every schedule
+
+// Run the evergreen extender (meant for a nightly cron). `?dryRun=1` only reports;
+// `?thresholdDays=N` overrides how close a tail must be to get extended.
+export async function POST(req: Request) {
+  serverOnly();
+  const denied = rejectUnlessAdmin(req);
+  if (denied) return denied;
+
+  const raw = new URL(req.url).searchParams.get("thresholdDays");
+  const thresholdDays = raw == null ? EXTEND_THRESHOLD_DAYS : Number(raw);
+  if (!Number.isInteger(thresholdDays) || thresholdDays < 0) {
+    return NextResponse.json(
+      { error: "thresholdDays must be a non-negative integer" },
+      { status: 400 }
+    );
+  }
+
+  const dryRun = isDryRun(req);
+  try {
+    const results = await extendEvergreenSchedules(getStripe(), { dryRun, thresholdDays });
+    return NextResponse.json({ dryRun, thresholdDays, results });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error("schedule extend error:", msg);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
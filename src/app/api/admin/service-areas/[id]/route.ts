@@ -0,0 +1,95 @@
+// src/app/api/admin/service-areas/[id]/route.ts
+import { NextResponse } from "next/server";
+import { serverOnly } from "@/lib/validation/server-only";
+import { getAreaRuleSet } from "@/lib/serviceAreas/store";
+import { proposeRetire, proposeUpdate } from "@/lib/serviceAreas/revisions";
+import { adminAuthor, isDryRun, rejectUnlessAdmin } from "../../_auth";
+import { applyRuleChange, requestedBaseVersion, versionETag } from "../_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+export async function GET(req: Request, { params }: Ctx) {
+  serverOnly();
+  const denied = rejectUnlessAdmin(req);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const { version, rules } = getAreaRuleSet();
+  const rule = rules.find((r) => r.id === id);
+  if (!rule) {
+    return NextResponse.json({ error: `Rule "${id}" not found` }, { status: 404 });
+  }
+  return NextResponse.json({ version, rule }, { headers: versionETag(version) });
+}
+
+// Update a rule. Body: { patch: Partial<AreaRule>, author?, baseVersion? }; null clears a field.
+export async function PATCH(req: Request, { params }: Ctx) {
+  serverOnly();
+  const denied = rejectUnlessAdmin(req);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as {
+    patch?: Record<string, unknown>;
+    author?: string;
+    baseVersion?: number;
+  } | null;
+  if (!body?.patch || typeof body.patch !== "object" || Array.isArray(body.patch)) {
+    return NextResponse.json({ error: "Missing patch" }, { status: 400 });
+  }
+  if ("id" in body.patch && body.patch.id !== id) {
+    return NextResponse.json({ error: "Rule id cannot be changed" }, { status: 400 });
+  }
+  const author = adminAuthor(req, body);
+  if (!author) {
+    return NextResponse.json(
+      { error: "Missing author (X-Admin-User header or body.author)" },
+      { status: 400 }
+    );
+  }
+
+  const base = getAreaRuleSet();
+  return applyRuleChange({
+    base,
+    expectedVersion: requestedBaseVersion(req, body),
+    proposed: proposeUpdate(base.rules, id, body.patch),
+    action: "update",
+    ruleId: id,
+    author,
+    dryRun: isDryRun(req),
+  });
+}
+
+// Retire a rule: it stays in the file (and history) but no longer matches addresses.
+export async function DELETE(req: Request, { params }: Ctx) {
+  serverOnly();
+  const denied = rejectUnlessAdmin(req);
+  if (denied) return denied;
+
+  const { id } = await params;
+  const body = (await req.json().catch(() => null)) as {
+    author?: string;
+    baseVersion?: number;
+  } | null;
+  const author = adminAuthor(req, body ?? undefined);
+  if (!author) {
+    return NextResponse.json(
+      { error: "Missing author (X-Admin-User header or body.author)" },
+      { status: 400 }
+    );
+  }
+
+  const base = getAreaRuleSet();
+  return applyRuleChange({
+    base,
+    expectedVersion: requestedBaseVersion(req, body),
+    proposed: proposeRetire(base.rules, id, new Date().toISOString()),
+    action: "retire",
+    ruleId: id,
+    author,
+    dryRun: isDryRun(req),
+  });
+}
@@ -0,0 +1,133 @@
+// src/app/api/admin/service-areas/_shared.ts
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getStripe } from "@/lib/stripe/stripe";
+import { collectErrorsFromTree, treeify } from "@/lib/validation/zod-error";
+import type { AreaRule } from "@/lib/serviceAreas/serviceAreas";
+import { AreaRulesFileSchema } from "@/lib/serviceAreas/serviceAreas.schema";
+import { getAreaRuleSet, type AreaRuleSet } from "@/lib/serviceAreas/store";
+import {
+  commitRuleChange,
+  diffRuleSets,
+  type ProposedChange,
+  type RuleChangeAction,
+} from "@/lib/serviceAreas/revisions";
+import { previewRuleImpact } from "@/lib/serviceAreas/impact";
+import { lintAreaRules, lintErrors } from "@/lib/serviceAreas/lint";
+
+const getErrorMessage = (err: unknown) =>
+  err instanceof Error ? err.message : typeof err === "string" ? err : JSON.stringify(err);
+
+/**
+ * The rule-set version a change was made against: `If-Match` (an ETag from GET,
+ * e.g. `"12"`), else `baseVersion` from the body. Undefined when neither is
+ * sent, NaN when one is malformed.
+ */
+export function requestedBaseVersion(req: Request, body?: { baseVersion?: unknown } | null) {
+  const header = req.headers.get("if-match")?.trim();
+  const raw = header ? header.replace(/^W\//, "").replace(/^"(.*)"$/, "$1") : body?.baseVersion;
+  if (raw == null) return undefined;
+  const n = Number(raw);
+  return Number.isInteger(n) && n >= 0 ? n : NaN;
+}
+
+/** ETag header for a rule-set version, to send back as If-Match. */
+export const versionETag = (version: number) => ({ ETag: `"${version}"` });
+
+/**
+ * Validate a proposed rule set, preview its impact on live subscriptions and,
+ * unless this is a dry run, commit it as a new revision. `base` is the rule set
+ * the proposal was built from; the commit only goes through while the file is
+ * still at that version, and a caller's `expectedVersion` must match it too.
+ */
+export async function applyRuleChange(opts: {
+  base: AreaRuleSet;
+  expectedVersion?: number;
+  proposed: ProposedChange;
+  action: RuleChangeAction;
+  ruleId: string;
+  author: string;
+  dryRun: boolean;
+}) {
+  const { base: current, expectedVersion, proposed, action, ruleId, author, dryRun } = opts;
+  if (Number.isNaN(expectedVersion)) {
+    return NextResponse.json(
+      { error: "If-Match / baseVersion must be a rule-set version" },
+      { status: 400 }
+    );
+  }
+  if (expectedVersion != null && expectedVersion !== current.version) {
+    return NextResponse.json(
+      {
+        error: `Rules changed since version ${expectedVersion} (now ${current.version}); reload and retry`,
+        version: current.version,
+      },
+      { status: 409, headers: versionETag(current.version) }
+    );
+  }
+  if (!proposed.ok) {
+    return NextResponse.json({ error: proposed.error }, { status: proposed.status });
+  }
+
+  const parsed = AreaRulesFileSchema.safeParse({
+    version: current.version + 1,
+    rules: proposed.rules,
+  });
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid rule change",
+        fieldErrors: collectErrorsFromTree(treeify(parsed.error)),
+      },
+      { status: 422 }
+    );
+  }
+  const rules: AreaRule[] = parsed.data.rules;
+
+  // Ambiguous or conflicting rule sets are rejected; warnings ride along in the response.
+  const lint = lintAreaRules(rules);
+  if (lintErrors(lint).length) {
+    return NextResponse.json(
+      { error: "Rule change conflicts with existing rules", lint },
+      { status: 422 }
+    );
+  }
+
+  try {
+    const impact = await previewRuleImpact(rules, getStripe());
+    if (dryRun) {
+      return NextResponse.json({
+        dryRun: true,
+        baseVersion: current.version,
+        diff: diffRuleSets(current.rules, rules),
+        impact,
+        lint,
+      });
+    }
+    const committed = await commitRuleChange({
+      author,
+      action,
+      ruleId,
+      rules,
+      baseVersion: current.version,
+    });
+    if (!committed.ok) {
+      // Another change landed while this one was being checked
+      const now = getAreaRuleSet().version;
+      return NextResponse.json(
+        { error: committed.error, version: now },
+        { status: committed.status, headers: versionETag(now) }
+      );
+    }
+    const { revision } = committed;
+    return NextResponse.json(
+      { revision, impact, lint },
+      { status: action === "create" ? 201 : 200, headers: versionETag(revision.version) }
+    );
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError ? z.prettifyError(err) : getErrorMessage(err);
+    console.error("[admin] service-area change failed:", action, ruleId, message);
+    return NextResponse.json({ error: message || "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+// src/app/api/admin/service-areas/revisions/route.ts
+import { NextResponse } from "next/server";
+import { serverOnly } from "@/lib/validation/server-only";
+import { listRevisions } from "@/lib/serviceAreas/revisions";
+import { rejectUnlessAdmin } from "../../_auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Revision history, newest first. `?ruleId=` narrows to one rule.
+export async function GET(req: Request) {
+  serverOnly();
+  const denied = rejectUnlessAdmin(req);
+  if (denied) return denied;
+
+  const ruleId = new URL(req.url).searchParams.get("ruleId");
+  const revisions = (await listRevisions())
+    .filter((r) => !ruleId || r.diff.some((d) => d.ruleId === ruleId))
+    .reverse();
+  return NextResponse.json({ revisions });
+}
@@ -0,0 +1,55 @@
+// src/app/api/admin/service-areas/route.ts
+import { NextResponse } from "next/server";
+import { serverOnly } from "@/lib/validation/server-only";
+import { getAreaRuleSet } from "@/lib/serviceAreas/store";
+import { proposeCreate } from "@/lib/serviceAreas/revisions";
+import type { AreaRule } from "@/lib/serviceAreas/serviceAreas";
+import { adminAuthor, isDryRun, rejectUnlessAdmin } from "../_auth";
+import { applyRuleChange, requestedBaseVersion, versionETag } from "./_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// List all rules (retired ones included) with the current version.
+export async function GET(req: Request) {
+  serverOnly();
+  const denied = rejectUnlessAdmin(req);
+  if (denied) return denied;
+
+  const { version, rules } = getAreaRuleSet();
+  return NextResponse.json({ version, rules }, { headers: versionETag(version) });
+}
+
+// Create a rule. Body: { rule: AreaRule, author?, baseVersion? }. `?dryRun=1` previews only.
+export async function POST(req: Request) {
+  serverOnly();
+  const denied = rejectUnlessAdmin(req);
+  if (denied) return denied;
+
+  const body = (await req.json().catch(() => null)) as {
+    rule?: AreaRule;
+    author?: string;
+    baseVersion?: number;
+  } | null;
+  if (!body?.rule || typeof body.rule !== "object") {
+    return NextResponse.json({ error: "Missing rule" }, { status: 400 });
+  }
+  const author = adminAuthor(req, body);
+  if (!author) {
+    return NextResponse.json(
+      { error: "Missing author (X-Admin-User header or body.author)" },
+      { status: 400 }
+    );
+  }
+
+  const base = getAreaRuleSet();
+  return applyRuleChange({
+    base,
+    expectedVersion: requestedBaseVersion(req, body),
+    proposed: proposeCreate(base.rules, body.rule),
+    action: "create",
+    ruleId: String(body.rule.id ?? ""),
+    author,
+    dryRun: isDryRun(req),
+  });
+}
@@ -0,0 +1,28 @@
+// src/app/api/calendar/_shared.ts
+import { NextResponse } from "next/server";
+import { getStripe } from "@/lib/stripe/stripe";
+import { subscriptionCalendar } from "@/lib/calendar/feed";
+
+export async function calendarResponse(
+  req: Request,
+  subscriptionId: string,
+  mode: "download" | "feed"
+) {
+  const stripe = getStripe();
+  const ics = await subscriptionCalendar(stripe, subscriptionId, {
+    uidDomain: new URL(req.url).hostname,
+    feed: mode === "feed",
+  });
+  if (ics == null) {
+    return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+  }
+  return new NextResponse(ics, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Cache-Control": "no-store",
+      ...(mode === "download" && {
+        "Content-Disposition": `attachment; filename="pickups-${subscriptionId}.ics"`,
+      }),
+    },
+  });
+}
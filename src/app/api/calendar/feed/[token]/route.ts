@@ -0,0 +1,33 @@
+// src/app/api/calendar/feed/[token]/route.ts
+import { NextResponse } from "next/server";
+import { serverOnly } from "@/lib/validation/server-only";
+import { hasCalendarFeedSecret, subscriptionIdFromFeedToken } from "@/lib/calendar/feed";
+import { calendarResponse } from "../../_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Subscribable feed (webcal), or a one-off .ics download with `?download=1`.
+// The token is the only credential, so a bad one is a plain 404.
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  serverOnly();
+  if (!hasCalendarFeedSecret()) {
+    return NextResponse.json({ error: "Calendar feeds are not configured" }, { status: 503 });
+  }
+  const { token } = await params;
+  const subscriptionId = subscriptionIdFromFeedToken(token);
+  if (!subscriptionId) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  try {
+    const download = new URL(req.url).searchParams.get("download") === "1";
+    return await calendarResponse(req, subscriptionId, download ? "download" : "feed");
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error("calendar feed error:", msg);
+    return NextResponse.json({ error: "Could not build calendar" }, { status: 500 });
+  }
+}
@@ -0,0 +1,142 @@
+// src/app/api/schedule/preview/route.ts
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { serverOnly } from "@/lib/validation/server-only";
+import {
+  PRICE_BY_PLAN,
+  type AccountType,
+} from "@/features/payments/stripe/server/prices";
+import { PRICE_CATALOG } from "@/features/payments/stripe/server/priceCatalog";
+import { subscriptionItemMode } from "@/lib/env/env.server";
+import { PRORATION_BEHAVIOR } from "@/lib/stripe/constants";
+import { fitsPerPropertyItems, hasSeasonalItem } from "@/lib/stripe/propertyPrices";
+import { buildSignupPhases } from "@/lib/stripe/phaseBuilder";
+import {
+  SignupRequestShape,
+  email,
+  selectionsMatchServices,
+} from "@/features/onboarding/personal/personal.schema";
+import {
+  buildAddrRulesCompact,
+  invalidSignupResponse,
+  seasonlessResponse,
+} from "../../stripe/create-subscription/_shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Same body as create-subscription (email optional), plus an optional date to plan from.
+const PreviewRequestSchema = SignupRequestShape.omit({ business: true, team: true })
+  .extend({
+    email: email.optional(),
+    referenceDate: z // ISO date/time; defaults to now
+      .string()
+      .refine((s) => !Number.isNaN(Date.parse(s)), "referenceDate must be an ISO date")
+      .optional(),
+    account: z.string().optional(),
+  })
+  .superRefine(selectionsMatchServices);
+
+const toIso = (epoch?: number) =>
+  typeof epoch === "number" ? new Date(epoch * 1000).toISOString() : null;
+
+/**
+ * Dry run of signup: resolves every address against the service-area rules and
+ * lays out the schedule exactly as create-subscription would, priced from the
+ * local catalog. Nothing is sent to Stripe.
+ */
+export async function POST(req: Request) {
+  serverOnly();
+
+  let raw: unknown;
+  try {
+    raw = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+  const parsed = PreviewRequestSchema.safeParse(raw);
+  if (!parsed.success) return invalidSignupResponse(parsed.error);
+  const body = parsed.data;
+
+  const account: AccountType = body.account === "business" ? "business" : "individual";
+  const nowEpoch = Math.floor(
+    (body.referenceDate != null ? Date.parse(body.referenceDate) : Date.now()) / 1000
+  );
+
+  const plan = body.plan;
+  const { compact: addrRules, failures, seasonless } = buildAddrRulesCompact(
+    body.services,
+    body.selections,
+    nowEpoch,
+    { seasonalOnly: plan === "seasonal_only" }
+  );
+  if (failures.length) {
+    return NextResponse.json(
+      { error: "Some addresses are outside our service areas", failures },
+      { status: 400 }
+    );
+  }
+  const seasonlessError = seasonlessResponse(seasonless);
+  if (seasonlessError) return seasonlessError;
+
+  const priceMap = PRICE_BY_PLAN[account];
+  // Per-property mode: signup would create one price per property; the plan prices stand in for them here.
+  const itemMode =
+    subscriptionItemMode() === "per_property" && fitsPerPropertyItems(addrRules)
+      ? "per_property"
+      : "aggregate";
+  if (itemMode === "per_property") {
+    for (const entry of addrRules) {
+      entry.p = hasSeasonalItem(entry) ? [priceMap.trash, priceMap.seasonal_2nd] : [priceMap.trash];
+    }
+  }
+  const { phases, pending, horizonEnd, nextFirst, baseQty, phases_idem } = buildSignupPhases({
+    addrRules,
+    nowEpoch,
+    priceIds: { base: priceMap.trash, seasonal: priceMap.seasonal_2nd },
+    prorationBehavior: PRORATION_BEHAVIOR,
+  });
+
+  const missing = new Set<string>();
+  let start = nowEpoch;
+  const priced = phases.map((p, index) => {
+    const items = p.items.map((i) => {
+      const price = PRICE_CATALOG[i.price];
+      if (!price) missing.add(i.price);
+      return {
+        price: i.price,
+        label: [price?.label ?? i.price, i.metadata?.city].filter(Boolean).join(" – "),
+        quantity: i.quantity,
+        unitAmount: price?.unitAmount ?? null,
+        amount: price ? price.unitAmount * i.quantity : null,
+      };
+    });
+    const phase = {
+      index,
+      start: toIso(start),
+      end: toIso(p.end_date), // null = open-ended
+      items,
+      monthlyTotal: items.every((i) => i.amount != null)
+        ? items.reduce((sum, i) => sum + (i.amount ?? 0), 0)
+        : null,
+    };
+    if (typeof p.end_date === "number") start = p.end_date;
+    return phase;
+  });
+
+  return NextResponse.json({
+    account,
+    plan,
+    itemMode,
+    referenceDate: toIso(nowEpoch),
+    billingAnchor: toIso(nextFirst),
+    currency: PRICE_CATALOG[priceMap.trash]?.currency ?? "usd",
+    baseQty,
+    phases: priced,
+    // Phases past the rolling horizon, appended to the Stripe schedule later
+    horizonEnd: toIso(horizonEnd ?? undefined),
+    pendingPhases: pending.length,
+    phases_idem,
+    ...(missing.size > 0 && { missingPrices: [...missing] }),
+  });
+}
@@ -0,0 +1,16 @@
+// src/app/api/service-areas/route.ts
+import { NextResponse } from "next/server";
+import { getAreaRuleSet } from "@/lib/serviceAreas/store";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Active service-area rules for the signup wizard, straight from the rule store,
+// so admin edits and file reloads reach the browser without a rebuild.
+export async function GET() {
+  const { version, rules } = getAreaRuleSet();
+  return NextResponse.json(
+    { version, rules: rules.filter((r) => !r.retiredAt) },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
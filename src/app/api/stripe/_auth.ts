@@ -0,0 +1,87 @@
+// src/app/api/stripe/_auth.ts
+import { NextResponse } from "next/server";
+import {
+  CUSTOMER_SESSION_COOKIE,
+  CUSTOMER_SESSION_TTL_SEC,
+  decodeCustomerSession,
+  encodeCustomerSession,
+  extendCustomerSession,
+  hasCustomerSessionSecret,
+  sessionOwns,
+  type CustomerSession,
+} from "@/lib/auth/customerSession";
+
+function sessionToken(req: Request): string | null {
+  for (const part of (req.headers.get("cookie") ?? "").split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name === CUSTOMER_SESSION_COOKIE) return decodeURIComponent(value.join("="));
+  }
+  return null;
+}
+
+const currentSession = (req: Request) => {
+  const token = sessionToken(req);
+  return token ? decodeCustomerSession(token) : null;
+};
+
+/**
+ * Customer-session gate for the self-service endpoints. Returns the session, or
+ * the response to send back when there is none. With `subscriptionId`, the
+ * session must also list that subscription (checked again against its Stripe
+ * customer once loaded, see `rejectUnlessOwner`).
+ */
+export function requireCustomerSession(
+  req: Request,
+  subscriptionId?: string
+): CustomerSession | NextResponse {
+  if (!hasCustomerSessionSecret()) {
+    return NextResponse.json(
+      { error: "Customer sessions are not configured" },
+      { status: 503 }
+    );
+  }
+  const session = currentSession(req);
+  if (!session) {
+    return NextResponse.json({ error: "Sign in to manage this subscription" }, { status: 401 });
+  }
+  // Someone else's subscription looks the same as a missing one
+  if (subscriptionId && !session.subscriptionIds.includes(subscriptionId)) {
+    return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+  }
+  return session;
+}
+
+/** 404 unless the loaded subscription belongs to the session's customer, else null. */
+export function rejectUnlessOwner(
+  session: CustomerSession,
+  sub: { id: string; customer: string | { id: string } }
+): NextResponse | null {
+  return sessionOwns(session, sub)
+    ? null
+    : NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+}
+
+/** Set (or extend) the session cookie on a successful signup response. */
+export function withCustomerSession(
+  req: Request,
+  res: NextResponse,
+  signup: { customerId: string; subscriptionId: string }
+): NextResponse {
+  if (!hasCustomerSessionSecret()) {
+    console.warn("[session] CUSTOMER_SESSION_SECRET is unset; signup issues no session");
+    return res;
+  }
+  const session = extendCustomerSession(
+    currentSession(req),
+    signup.customerId,
+    signup.subscriptionId
+  );
+  res.cookies.set(CUSTOMER_SESSION_COOKIE, encodeCustomerSession(session), {
+    httpOnly: true,
+    sameSite: "lax", // no cross-site POST/DELETE carries it
+    secure: process.env.NODE_ENV === "production",
+    path: "/api",
+    maxAge: CUSTOMER_SESSION_TTL_SEC,
+  });
+  return res;
+}
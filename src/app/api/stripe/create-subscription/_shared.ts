@@ -8,30 +8,115 @@ import {
   type AccountType,
 } from "@/features/payments/stripe/server/prices";
 import type { Plan } from "@/features/payments/stripe/shared/plan";
+import { NET_TERMS_DAYS } from "@/features/payments/stripe/shared/billing";
+import {
+  BusinessSignupRequestSchema,
+  SignupRequestSchema,
+  type SignupRequest,
+} from "@/features/onboarding/personal/personal.schema";
+import type { z } from "zod";
+import { collectErrorsFromTree, treeify } from "@/lib/validation/zod-error";
+import { claimIdempotencyKey, idempotencyKeyError } from "@/lib/idempotency/store";
 import { PRORATION_BEHAVIOR } from "@/lib/stripe/constants";
-import { buildSignupPhases } from "@/lib/stripe/phaseBuilder";
+import {
+  buildSignupPhases,
+  type AddrRuleCompact, // compact “per-address” rule shape, stored in the repository
+} from "@/lib/stripe/phaseBuilder";
+import { chunkForMetadata, type ServiceAddressMeta } from "@/lib/stripe/metadata";
+import { addrRulesRefMetadata, recordSubscription } from "@/lib/db/repository";
+import { createPropertyPrices, fitsPerPropertyItems } from "@/lib/stripe/propertyPrices";
+import { subscriptionItemMode } from "@/lib/env/env.server";
 import { createHash } from "crypto";
 import {
+  normalizeZip,
   resolveRuleForAddress,
   type Address as SAAddress,
 } from "@/lib/serviceAreas/serviceAreas";
+import { geocodeAddress } from "@/lib/geo/geocoder";
+import "@/lib/serviceAreas/store"; // resolve against the hot-reloaded rule file
+import { SEASON_HORIZON_SEC, seasonsWindowsBetween } from "@/lib/season/recurring";
+import { withCustomerSession } from "../_auth";
+
+// ——— shared with the schedule preview (no Stripe calls) ———
+
+export const cleanZip = (z?: string) => (z ?? "").trim().slice(0, 5);
+const toSAAddress = (svc: Record<string, unknown>): SAAddress => ({
+  line1: String(svc.line1 ?? ""),
+  city: String(svc.city ?? ""),
+  state: String(svc.state ?? ""),
+  zip: String(svc.postalCode ?? svc.zip ?? ""), // keep ZIP+4 for split routes
+});
+
+// Resolve rules for all services; return compact array + list of any failures.
+// Recurring seasons are pinned to the concrete windows within a year of refEpoch.
+// With `seasonalOnly`, entries are marked `so` and addresses whose area has no
+// season in that year are listed in `seasonless` (they would never be served).
+export function buildAddrRulesCompact(
+  services: Array<Record<string, unknown>>,
+  selections: Array<{ seasonal_2nd?: boolean }>,
+  refEpoch: number,
+  opts: { seasonalOnly?: boolean } = {}
+) {
+  const compact: AddrRuleCompact[] = [];
+  const failures: number[] = [];
+  const seasonless: number[] = [];
+
+  services.forEach((svc, idx) => {
+    const addr = toSAAddress(svc);
+    addr.location = geocodeAddress(addr) ?? undefined;
+    const rule = resolveRuleForAddress(addr);
+    if (!rule) {
+      failures.push(idx);
+      return;
+    }
+    const windows = seasonsWindowsBetween(
+      rule.seasons ?? [],
+      refEpoch,
+      refEpoch + SEASON_HORIZON_SEC
+    );
+    compact.push({
+      c: addr.city,
+      z: normalizeZip(addr.zip),
+      st: addr.state.trim().toUpperCase() || undefined,
+      g: addr.location,
+      b: rule.baseDay,
+      s: rule.secondaryDay ?? -1,
+      o: selections[idx]?.seasonal_2nd ? 1 : 0,
+      ...(opts.seasonalOnly && { so: 1 as const }),
+      w: windows.map((w) => [w.start, w.end]),
+    });
+    if (opts.seasonalOnly && !windows.length) seasonless.push(idx);
+  });
+
+  return { compact, failures, seasonless };
+}
+
+/** The 400 for addresses a seasonal-only plan can't serve, or null when there are none. */
+export function seasonlessResponse(seasonless: number[]) {
+  return seasonless.length
+    ? NextResponse.json(
+        {
+          error: "Some addresses have no service season; choose a year-round plan for them",
+          failures: seasonless,
+        },
+        { status: 400 }
+      )
+    : null;
+}
+
+/** The 422 for a request body that fails its schema, with errors keyed by field path. */
+export function invalidSignupResponse(error: z.ZodError, message = "Invalid signup request") {
+  return NextResponse.json(
+    {
+      error: message,
+      fieldErrors: collectErrorsFromTree(treeify(error)),
+    },
+    { status: 422 }
+  );
+}
 
 export function makeHandlers(account: AccountType) {
   // ——— shared types ———
-  type Body = {
-    email: string;
-    plan: Plan;
-    services: Array<Record<string, unknown>>;
-    billing?: Record<string, unknown>;
-    selections: Array<{ seasonal_2nd?: boolean }>
-  };
-  type PhaseWithDuration = Stripe.SubscriptionScheduleCreateParams.Phase & {
-    duration?: { interval: "month"; interval_count: number };
-  };
-  type CompactPhase = Pick<
-    Stripe.SubscriptionScheduleCreateParams.Phase,
-    "items" | "end_date" | "proration_behavior"
-  > & { duration?: { interval: "month"; interval_count: number } };
   type InvoiceWithCS = Stripe.Invoice & {
     confirmation_secret?: { client_secret?: string | null } | string | null;
   };
@@ -52,318 +137,400 @@ export function makeHandlers(account: AccountType) {
       ? err
       : JSON.stringify(err);
 
-  // compact “per-address” metadata shape to avoid Stripe's 500-char limit
-  type AddrRuleCompact = {
-    c: string;
-    z: string;
-    b: number;
-    s: number;
-    ss: number;
-    se: number;
-  };
-
-  const cleanZip = (z?: string) => (z ?? "").trim().slice(0, 5);
-  const toSAAddress = (svc: Record<string, unknown>): SAAddress => ({
-    line1: String(svc.line1 ?? ""),
-    city: String(svc.city ?? ""),
-    state: String(svc.state ?? ""),
-    zip: cleanZip(String(svc.postalCode ?? svc.zip ?? "")),
-  });
-
-  // Resolve rules for all services; return compact array + list of any failures
-  function buildAddrRulesCompact(services: Array<Record<string, unknown>>) {
-    const compact: AddrRuleCompact[] = [];
-    const failures: number[] = [];
-
-    services.forEach((svc, idx) => {
-      const addr = toSAAddress(svc);
-      const rule = resolveRuleForAddress(addr);
-      if (!rule) {
-        failures.push(idx);
-        return;
+  // Find or create the customer, create the subscription and return what the
+  // client needs to pay. Every Stripe idempotency key is derived from `idemBase`.
+  const createSubscription = async (
+    body: SignupRequest,
+    idemBase: string
+  ): Promise<NextResponse> => {
+    const stripe = getStripe();
+    let emailForLog: string | undefined;
+
+    try {
+      const { email, services, billing, selections } = body;
+      const plan: Plan = body.plan;
+      emailForLog = email;
+      const nowEpoch = Math.floor(Date.now() / 1000);
+
+      // Resolve per-address rules server-side (authoritative)
+      const { compact: addrRules, failures, seasonless } = buildAddrRulesCompact(
+        services,
+        selections,
+        nowEpoch,
+        { seasonalOnly: plan === "seasonal_only" }
+      );
+      if (failures.length) {
+        // Return a meaningful error that maps back to the failing card indices
+        return NextResponse.json(
+          { error: "Some addresses are outside our service areas", failures },
+          { status: 400 }
+        );
       }
-      compact.push({
-        c: addr.city,
-        z: addr.zip,
-        b: rule.baseDay,
-        s: rule.secondaryDay ?? -1,
-        ss: rule.season?.startUTC ?? -1,
-        se: rule.season?.endUTC ?? -1,
-      });
-    });
-
-    return { compact, failures };
-  }
+      const seasonlessError = seasonlessResponse(seasonless);
+      if (seasonlessError) return seasonlessError;
 
-  // Stripe metadata hard limit ≈ 500 chars per field. Chunk long JSON strings safely.
-  function chunkForMetadata(prefix: string, json: string, perFieldMax = 480) {
-    const chunks: Record<string, string> = {};
-    if (json.length <= perFieldMax) {
-      chunks[prefix] = json;
-      return chunks;
-    }
-    let i = 1,
-      start = 0;
-    while (start < json.length) {
-      const end = Math.min(start + perFieldMax, json.length);
-      chunks[`${prefix}_${i}`] = json.slice(start, end);
-      start = end;
-      i++;
-    }
-    return chunks;
-  }
+      // Business signups: company details, team and payment terms
+      const business =
+        account === "business" && body.business
+          ? { ...body.business, taxId: body.business.taxId || undefined }
+          : undefined;
+      const sendInvoice = business?.collectionMethod === "send_invoice";
 
-  return {
-    // ---------- POST ----------
-    POST: async (req: Request) => {
-      serverOnly();
-      const stripe = getStripe();
-      let emailForLog: string | undefined;
+      // 👇 pick price map for this account
+      const priceMap = PRICE_BY_PLAN[account];
 
-      try {
-        const body = (await req.json()) as Body;
-        const { email, services, billing, selections } = body;
-        emailForLog = email;
-        const addrMini = services.map((s) => ({
-          c: String(s.city ?? ""),
-          z: cleanZip(String(s.postalCode ?? s.zip ?? "")),
-        }));
-        const addrMiniJson = JSON.stringify(addrMini);
-        const addrMiniChunks = chunkForMetadata("addr_mini", addrMiniJson);
-
-        if (!email)
-          return NextResponse.json({ error: "Missing email" }, { status: 400 });
-        if (!Array.isArray(services) || services.length < 1) {
-          return NextResponse.json(
-            { error: "At least one service address is required" },
-            { status: 400 }
-          );
-        }
-        if (
-          !Array.isArray(selections) ||
-          services.length !== selections.length
-        ) {
-          return NextResponse.json(
-            { error: "Selections must match service addresses" },
-            { status: 400 }
-          );
-        }
-        if (selections.some((s) => !s || typeof s !== "object")) {
-          return NextResponse.json(
-            { error: "Invalid selection object(s)" },
-            { status: 400 }
-          );
+      // Find or create customer (a retry that misses the list still gets the same one)
+      const existing = await stripe.customers.list({ email, limit: 1 });
+      const customer =
+        existing.data[0] ??
+        (await stripe.customers.create(
+          { email },
+          { idempotencyKey: sha256(idemBase + "|customer.create:v1") }
+        ));
+
+      // Full service addresses, stored with the properties in the repository
+      const fullAddresses: ServiceAddressMeta[] = services.map((svc, idx) => ({
+        index: idx,
+        line1: svc.line1,
+        line2: svc.line2 ?? "",
+        city: svc.city,
+        state: svc.state,
+        postal_code: cleanZip(svc.postalCode),
+        seasonal_selected: selections[idx]?.seasonal_2nd ?? false,
+      }));
+
+      // Update customer with billing address (or first service address as fallback)
+      const primaryAddress = billing ?? services[0];
+      await stripe.customers.update(customer.id, {
+        ...(business && {
+          name: business.companyName,
+          invoice_settings: {
+            custom_fields: business.poNumber
+              ? [{ name: "PO Number", value: business.poNumber }]
+              : "",
+          },
+        }),
+        address: {
+          line1: primaryAddress.line1,
+          line2: primaryAddress.line2 ?? "",
+          city: primaryAddress.city,
+          state: primaryAddress.state,
+          postal_code: cleanZip(primaryAddress.postalCode),
+          country: "US", // Assuming US addresses
+        },
+        metadata: { service_address_count: String(services.length) },
+      });
+      if (business?.taxId) {
+        const { data: taxIds } = await stripe.customers.listTaxIds(customer.id);
+        if (!taxIds.some((t) => t.type === "us_ein" && t.value === business.taxId)) {
+          await stripe.customers.createTaxId(customer.id, { type: "us_ein", value: business.taxId });
         }
+      }
 
-        // Resolve per-address rules server-side (authoritative)
-        const { compact: addrRules, failures } =
-          buildAddrRulesCompact(services);
-        if (failures.length) {
-          // Return a meaningful error that maps back to the failing card indices
-          return NextResponse.json(
-            { error: "Some addresses are outside our service areas", failures },
-            { status: 400 }
+      // Per-property mode: give every address its own prices (Stripe caps items per subscription)
+      if (subscriptionItemMode() === "per_property") {
+        if (fitsPerPropertyItems(addrRules)) {
+          const [trashPrice, seasonalPrice] = await Promise.all([
+            stripe.prices.retrieve(priceMap.trash),
+            stripe.prices.retrieve(priceMap.seasonal_2nd),
+          ]);
+          const propertyPrices = await createPropertyPrices(stripe, {
+            customerId: customer.id,
+            entries: addrRules,
+            addresses: services.map((svc) => `${svc.line1}, ${svc.city}`),
+            planPrices: { base: trashPrice, seasonal: seasonalPrice },
+          });
+          addrRules.forEach((entry, i) => (entry.p = propertyPrices[i]));
+        } else {
+          console.warn(
+            "[SIGNUP] too many items for per-property billing; using plan quantities:",
+            services.length
           );
         }
+      }
 
-        // Prepare compact JSON and chunk for metadata
-        const addrRulesJson = JSON.stringify(addrRules);
-        const addrRuleChunks = chunkForMetadata("addr_rules", addrRulesJson);
+      const { phases, nextFirst } = buildSignupPhases({
+        addrRules,
+        nowEpoch,
+        priceIds: { base: priceMap.trash, seasonal: priceMap.seasonal_2nd },
+        prorationBehavior: PRORATION_BEHAVIOR,
+      });
 
-        // 👇 pick price map for this account
-        const priceMap = PRICE_BY_PLAN[account];
+      if (!phases.length || !phases[0].items.length) {
+        return NextResponse.json(
+          { error: "No billable items" },
+          { status: 400 }
+        );
+      }
 
-        const nowEpoch = Math.floor(Date.now() / 1000);
-        const { phases, nextFirst, baseQty } = buildSignupPhases({
-          services,
-          selections,
-          nowEpoch,
-          priceIds: { base: priceMap.trash, seasonal: priceMap.seasonal_2nd },
-          prorationBehavior: PRORATION_BEHAVIOR,
-        });
+      // Idempotency keys (separate endpoints), scoped to this checkout attempt
+      const baseRaw = `sched:${idemBase}:${customer.id}:${account}`;
+      const subCreateIdem = sha256(baseRaw + "|sub.create:v1");
+      const schedCreateIdem = sha256(baseRaw + "|sched.create:v1");
 
-        if (!phases.length || !phases[0].items.length) {
-          return NextResponse.json(
-            { error: "No billable items" },
-            { status: 400 }
-          );
-        }
+      // Create subscription for initial phase
+      const [initialPhase, ...schedulePhases] = phases;
+      if (!initialPhase?.items?.length) {
+        return NextResponse.json(
+          { error: "No initial billable items" },
+          { status: 400 }
+        );
+      }
 
-        // Find or create customer
-        const existing = await stripe.customers.list({ email, limit: 1 });
-        const customer =
-          existing.data[0] ?? (await stripe.customers.create({ email }));
-
-        // Store full service addresses in customer metadata
-        const fullAddresses = services.map((svc, idx) => ({
-          index: idx,
-          line1: String(svc.line1 ?? ""),
-          line2: String(svc.line2 ?? ""),
-          city: String(svc.city ?? ""),
-          state: String(svc.state ?? ""),
-          postal_code: cleanZip(String(svc.postalCode ?? svc.zip ?? "")),
-          seasonal_selected: selections[idx]?.seasonal_2nd ?? false,
-        }));
-        
-        const addressesJson = JSON.stringify(fullAddresses);
-        const addressChunks = chunkForMetadata("service_addresses", addressesJson);
-
-        // Update customer with billing address (or first service address as fallback)
-        const primaryAddress = billing ?? services[0];
-        await stripe.customers.update(customer.id, {
-          address: {
-            line1: String(primaryAddress.line1 ?? ""),
-            line2: String(primaryAddress.line2 ?? ""),
-            city: String(primaryAddress.city ?? ""),
-            state: String(primaryAddress.state ?? ""),
-            postal_code: cleanZip(String(primaryAddress.postalCode ?? primaryAddress.zip ?? "")),
-            country: "US", // Assuming US addresses
-          },
+      const sub = await stripe.subscriptions.create(
+        {
+          customer: customer.id,
+          items: initialPhase.items,
+          // Net terms: invoices are emailed and due in NET_TERMS_DAYS; no card up front
+          ...(sendInvoice
+            ? {
+                collection_method: "send_invoice" as const,
+                days_until_due: NET_TERMS_DAYS,
+                payment_behavior: "allow_incomplete" as const,
+                payment_settings: { payment_method_types: ["card" as const, "us_bank_account" as const] },
+              }
+            : {
+                collection_method: "charge_automatically" as const,
+                payment_behavior: "default_incomplete" as const,
+                payment_settings: {
+                  save_default_payment_method: "on_subscription" as const,
+                  payment_method_types: ["card" as const],
+                },
+              }),
+          billing_mode: { type: "flexible" },
+          expand: [
+            "latest_invoice.confirmation_secret",
+            "latest_invoice.payment_intent",
+            "latest_invoice",
+            "pending_setup_intent",
+          ],
+          billing_cycle_anchor: nextFirst,
+          proration_behavior: "create_prorations",
           metadata: {
-            ...addressChunks,
-            service_address_count: String(services.length),
+            addr_rules_v: "1", // rule snapshot in the repository (recorded just below)
+            // Copy of the rules until the repository has them: if that write fails,
+            // the webhook can still build the schedule from here
+            ...chunkForMetadata("addr_rules", JSON.stringify(addrRules)),
+            // can also tag the account type as a breadcrumb if useful
+            signup_account_type: account,
+            signup_plan: plan, // add-property inherits seasonal-only from it
+          },
+        },
+        { idempotencyKey: subCreateIdem }
+      );
+
+      console.log("[SIGNUP] Created subscription:", sub.id, "phases from buildSignupPhases:", phases.length);
+      phases.forEach((p, i) => console.log(`[SIGNUP] Phase ${i}:`, { 
+        end_date: p.end_date, 
+        items: p.items?.length 
+      }));
+
+      // The repository holds the properties; the webhook reads them from there
+      let rulesVersion: number;
+      try {
+        rulesVersion = recordSubscription({
+          customer: {
+            id: customer.id,
+            email,
+            ...(business && {
+              name: business.companyName,
+              companyName: business.companyName,
+              taxId: business.taxId,
+              poNumber: business.poNumber,
+              collectionMethod: business.collectionMethod,
+              team: body.team,
+            }),
           },
+          subscription: {
+            id: sub.id,
+            customerId: customer.id,
+            accountType: account,
+            plan,
+            status: sub.status,
+          },
+          entries: addrRules,
+          addresses: fullAddresses,
         });
-
-        // Idempotency keys (separate endpoints)
-        const first = phases[0] as PhaseWithDuration | undefined;
-        const firstPhaseSig =
-          first?.duration?.interval === "month" &&
-          typeof first.duration.interval_count === "number"
-            ? `dur:${first.duration.interval_count}`
-            : typeof first?.end_date === "number"
-            ? `end:${first.end_date}`
-            : "unknown";
-        const lastItemsSig = (phases.at(-1)?.items ?? [])
-          .map((i) => (typeof i.quantity === "number" ? i.quantity : 0))
-          .join(",");
-        const baseRaw = `sched:${customer.id}:${baseQty}:${phases.length}:${firstPhaseSig}:${lastItemsSig}:${account}`;
-        const subCreateIdem = sha256(baseRaw + "|sub.create:v1");
-        const schedCreateIdem = sha256(baseRaw + "|sched.create:v1");
-
-        // Create subscription for initial phase
-        const [initialPhase, ...schedulePhases] = phases;
-        if (!initialPhase?.items?.length) {
-          return NextResponse.json(
-            { error: "No initial billable items" },
-            { status: 400 }
-          );
-        }
-
-        const sub = await stripe.subscriptions.create(
+      } catch (err) {
+        // The subscription exists in Stripe and keeps its addr_rules copy, so the
+        // webhook can still schedule it; `npm run db:import-metadata` records it later.
+        console.error(
+          "[SIGNUP] subscription created but not recorded:",
+          sub.id,
+          maskEmail(emailForLog),
+          getErrorMessage(err)
+        );
+        return NextResponse.json(
           {
-            customer: customer.id,
-            collection_method: "charge_automatically",
-            payment_behavior: "default_incomplete",
-            items: initialPhase.items,
-            payment_settings: {
-              save_default_payment_method: "on_subscription",
-              payment_method_types: ["card"],
-            },
-            billing_mode: { type: "flexible" },
-            expand: [
-              "latest_invoice.confirmation_secret",
-              "latest_invoice.payment_intent",
-              "latest_invoice",
-            ],
-            billing_cycle_anchor: nextFirst,
-            proration_behavior: "create_prorations",
-            metadata: {
-              ...addrRuleChunks,
-              ...addrMiniChunks, // <-- NEW: per-address compact rules
-              // can also tag the account type as a breadcrumb if useful
-              signup_account_type: account,
-            },
+            error: "Your subscription was created but could not be saved. Please contact support.",
+            subscriptionId: sub.id,
           },
-          { idempotencyKey: subCreateIdem }
+          { status: 500 }
         );
+      }
 
-        console.log("[SIGNUP] Created subscription:", sub.id, "phases from buildSignupPhases:", phases.length);
-        phases.forEach((p, i) => console.log(`[SIGNUP] Phase ${i}:`, { 
-          end_date: p.end_date, 
-          duration: p.duration, 
-          items: p.items?.length 
-        }));
-
-        // Free/zero invoice?
-        const li = sub.latest_invoice as Stripe.Invoice | null | undefined;
-        const amount_due = li?.amount_due ?? 0;
-        if (amount_due === 0) {
-          return NextResponse.json({
-            ok: true,
-            subscriptionId: sub.id,
-            noInitialCharge: true,
-            latestInvoiceId: li?.id ?? null,
-          });
-        }
-
-        // Pull client_secret
-        const invoice = sub.latest_invoice as InvoiceWithCS | string | null;
-        const clientSecret =
-          invoice &&
-          typeof invoice !== "string" &&
-          invoice.confirmation_secret &&
-          typeof invoice.confirmation_secret !== "string"
-            ? invoice.confirmation_secret.client_secret ?? undefined
-            : undefined;
-        if (!clientSecret) {
-          return NextResponse.json(
-            { error: "Failed to create payment intent" },
-            { status: 400 }
-          );
+      // Recorded: point at the snapshot and drop the metadata copy
+      const rulesRef = addrRulesRefMetadata(sub.metadata, rulesVersion);
+
+      const scheduleMeta = {
+        ...rulesRef,
+        schedule_idem: schedCreateIdem,
+        schedule_phase_count: String(schedulePhases.length),
+        signup_account_type: account, // breadcrumb
+        signup_plan: plan,
+      };
+
+      // Invoiced: send the first invoice now; the webhook attaches the schedule
+      // once the subscription is active, as it does for card signups.
+      if (sendInvoice) {
+        const firstInvoice = sub.latest_invoice as Stripe.Invoice | null | undefined;
+        let sent: Stripe.Invoice | null = null;
+        if (firstInvoice?.id && (firstInvoice.amount_due ?? 0) > 0) {
+          if (firstInvoice.status === "draft") {
+            await stripe.invoices.finalizeInvoice(firstInvoice.id);
+          }
+          sent = await stripe.invoices.sendInvoice(firstInvoice.id);
         }
-
-        // Compact future phases -> stash in metadata
-        const hasDuration = (
-          p: PhaseWithDuration
-        ): p is PhaseWithDuration & {
-          duration: { interval: "month"; interval_count: number };
-        } =>
-          !!p.duration &&
-          p.duration.interval === "month" &&
-          typeof p.duration.interval_count === "number";
-
-        const schedulePhasesTyped =
-          schedulePhases as ReadonlyArray<PhaseWithDuration>;
-        const compactPhases: CompactPhase[] = schedulePhasesTyped.map((p) => {
-          const out: CompactPhase = {
-            items: p.items ?? [],
-            proration_behavior: p.proration_behavior,
-          };
-          if (hasDuration(p)) out.duration = p.duration;
-          if (typeof p.end_date === "number") out.end_date = p.end_date;
-          return out;
-        });
-
-        await stripe.subscriptions.update(sub.id, {
-          metadata: {
-            ...addrRuleChunks,
-            ...addrMiniChunks, 
-            schedule_idem: schedCreateIdem,
-            schedule_phase_count: String(compactPhases.length),
-            // schedule_phases: JSON.stringify(compactPhases),
-            signup_account_type: account, // breadcrumb
-          },
+        await stripe.subscriptions.update(sub.id, { metadata: scheduleMeta });
+        return NextResponse.json({
+          invoiced: true,
+          subscriptionId: sub.id,
+          customerId: customer.id,
+          invoiceId: firstInvoice?.id ?? null,
+          hostedInvoiceUrl: sent?.hosted_invoice_url ?? null,
         });
+      }
 
+      // Free/zero invoice? (e.g. a seasonal-only signup out of season)
+      // Stripe then leaves a setup intent to save the card for later invoices.
+      const li = sub.latest_invoice as Stripe.Invoice | null | undefined;
+      const amount_due = li?.amount_due ?? 0;
+      const setupIntent =
+        sub.pending_setup_intent && typeof sub.pending_setup_intent !== "string"
+          ? sub.pending_setup_intent
+          : null;
+      if (amount_due === 0 && !setupIntent?.client_secret) {
+        await stripe.subscriptions.update(sub.id, { metadata: rulesRef });
         return NextResponse.json({
-          clientSecret,
+          ok: true,
           subscriptionId: sub.id,
           customerId: customer.id,
+          noInitialCharge: true,
+          latestInvoiceId: li?.id ?? null,
         });
-      } catch (error: unknown) {
-        const message = getErrorMessage(error);
-        console.error(
-          "Error creating subscription:",
-          maskEmail(emailForLog),
-          message,
-          error
+      }
+
+      // Pull client_secret
+      const invoice = sub.latest_invoice as InvoiceWithCS | string | null;
+      const clientSecret =
+        amount_due === 0
+          ? setupIntent?.client_secret ?? undefined
+          : invoice &&
+            typeof invoice !== "string" &&
+            invoice.confirmation_secret &&
+            typeof invoice.confirmation_secret !== "string"
+          ? invoice.confirmation_secret.client_secret ?? undefined
+          : undefined;
+      if (!clientSecret) {
+        return NextResponse.json(
+          { error: "Failed to create payment intent" },
+          { status: 400 }
         );
+      }
+
+      await stripe.subscriptions.update(sub.id, { metadata: scheduleMeta });
+
+      return NextResponse.json({
+        clientSecret,
+        // "setup": nothing is due yet, the card is only saved (confirmSetup, not confirmPayment)
+        intent: amount_due === 0 ? "setup" : "payment",
+        subscriptionId: sub.id,
+        customerId: customer.id,
+      });
+    } catch (error: unknown) {
+      const message = getErrorMessage(error);
+      console.error(
+        "Error creating subscription:",
+        maskEmail(emailForLog),
+        message,
+        error
+      );
+      return NextResponse.json(
+        { error: message || "Internal Server Error" },
+        { status: 500 }
+      );
+    }
+  };
+
+  return {
+    // ---------- POST ----------
+    POST: async (req: Request) => {
+      serverOnly();
+
+      // PaymentStep sends one key per checkout attempt; retries replay the first result
+      const idemKey = req.headers.get("Idempotency-Key")?.trim() || null;
+      const keyError = idemKey ? idempotencyKeyError(idemKey) : null;
+      if (keyError) return NextResponse.json({ error: keyError }, { status: 400 });
+
+      let raw: unknown;
+      try {
+        raw = await req.json();
+      } catch {
+        return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+      }
+      // Validate and normalize (trimmed fields, upper-case states, lower-case email)
+      const parsed = (
+        account === "business" ? BusinessSignupRequestSchema : SignupRequestSchema
+      ).safeParse(raw);
+      if (!parsed.success) return invalidSignupResponse(parsed.error);
+      const body: SignupRequest = parsed.data;
+      const fingerprint = sha256(JSON.stringify({ account, body }));
+
+      // A successful signup (or its replay) starts the customer's session
+      const signedIn = async (res: NextResponse) => {
+        if (!res.ok) return res;
+        const { customerId, subscriptionId } = await res.clone().json();
+        return typeof customerId === "string" && typeof subscriptionId === "string"
+          ? withCustomerSession(req, res, { customerId, subscriptionId })
+          : res;
+      };
+
+      if (!idemKey) return signedIn(await createSubscription(body, `body:${fingerprint}`));
+
+      const claim = await claimIdempotencyKey({
+        scope: `signup:${account}`,
+        key: idemKey,
+        fingerprint,
+      });
+      if (claim.state === "replay") {
+        return signedIn(
+          NextResponse.json(claim.result.body, {
+            status: claim.result.status,
+            headers: { "Idempotent-Replayed": "true" },
+          })
+        );
+      }
+      if (claim.state === "in_progress") {
         return NextResponse.json(
-          { error: message || "Internal Server Error" },
-          { status: 500 }
+          { error: "A request with this Idempotency-Key is still in progress" },
+          { status: 409 }
+        );
+      }
+      if (claim.state === "mismatch") {
+        return NextResponse.json(
+          { error: "This Idempotency-Key was already used for a different request" },
+          { status: 422 }
         );
       }
+
+      const res = await createSubscription(body, `key:${idemKey}`);
+      // Successes are stored for replay. Errors release the key so a retry runs
+      // again; its Stripe calls reuse the same keys, so nothing is created twice.
+      const result = res.ok ? { status: res.status, body: await res.clone().json() } : null;
+      await claim.settle(result).catch((err) =>
+        console.error("[SIGNUP] failed to store idempotent result:", getErrorMessage(err))
+      );
+      return signedIn(res);
     },
 
     // ---------- GET ----------
@@ -0,0 +1,7 @@
+// src/app/api/stripe/create-subscription/business/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { makeHandlers } from "../_shared";
+const { POST, GET } = makeHandlers("business");
+export { POST, GET };
@@ -4,6 +4,13 @@ import type Stripe from "stripe";
 import { serverOnly } from "@/lib/validation/server-only";
 import { getStripe } from "@/lib/stripe/stripe"; // ✅ use the shared helper
 import { PRICE_BY_PLAN } from "@/features/payments/stripe/server/prices";
+import { calendarFeedUrl, hasCalendarFeedSecret } from "@/lib/calendar/feed";
+import { isoDate } from "@/lib/calendar/holidays";
+import { zonedParts } from "@/lib/date/zoned";
+import { forecastInvoices, type ForecastPhase } from "@/lib/stripe/forecast";
+import { formatServiceAddress } from "@/lib/stripe/metadata";
+import { readAddrRules, readServiceAddresses } from "@/lib/db/repository";
+import { rejectUnlessOwner, requireCustomerSession } from "../_auth";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -37,6 +44,12 @@ export async function GET(req: Request) {
         { status: 400 }
       );
     }
+    // Addresses, holds and the calendar links are only for the owner
+    const session = requireCustomerSession(req, subscriptionId);
+    if (session instanceof NextResponse) return session;
+    if (customerId && customerId !== session.customerId) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 });
+    }
 
     // 1) Locate the subscription (either by id, or by most-recent active for a customer)
     let sub: Stripe.Subscription | null = null;
@@ -65,6 +78,8 @@ export async function GET(req: Request) {
         { status: 404 }
       );
     }
+    const denied = rejectUnlessOwner(session, sub);
+    if (denied) return denied;
 
     const resolvedCustomerId =
       typeof sub.customer === "string" ? sub.customer : sub.customer?.id;
@@ -206,11 +221,15 @@ export async function GET(req: Request) {
     }
 
     // 5) Include price metadata for proper labeling on client
-    const priceMetadata: Record<string, { name: string; type: 'base' | 'seasonal'; amount: number }> = {};
+    const priceMetadata: Record<
+      string,
+      { name: string; type: 'base' | 'seasonal'; amount: number; property?: number }
+    > = {};
     
-    // Get the actual price IDs from the price map to identify which is which
-    const PRICE_BASE = PRICE_BY_PLAN.individual.trash;
-    const PRICE_SEASONAL = PRICE_BY_PLAN.individual.seasonal_2nd;
+    // Plan prices (aggregate mode) are known; per-property prices say what they are in their metadata
+    const SEASONAL_PLAN_PRICES = new Set(
+      Object.values(PRICE_BY_PLAN).map((m) => m.seasonal_2nd)
+    );
     
     // Collect all price IDs from subscription items and schedule phases
     const allPriceIds = new Set<string>();
@@ -231,23 +250,135 @@ export async function GET(req: Request) {
       }
     }
     
+    // Which property a per-property price bills, from item metadata: removing a
+    // property shifts the indexes after it, and only the items are rewritten
+    // (price metadata keeps the index the price was created with). Later
+    // phases win, so a price is labelled with its most recent index.
+    const propertyIndexByPrice = new Map<string, number>();
+    const noteItem = (price: unknown, metadata?: Stripe.Metadata | null) => {
+      const priceId = typeof price === "string" ? price : (price as Stripe.Price | null)?.id;
+      const index = Number(metadata?.property_index);
+      if (priceId && metadata?.property_index != null && Number.isInteger(index)) {
+        propertyIndexByPrice.set(priceId, index);
+      }
+    };
+    sub.items.data.forEach((item) => noteItem(item.price, item.metadata));
+    schedule?.phases?.forEach((phase) =>
+      (phase.items ?? []).forEach((item) => noteItem(item.price, item.metadata))
+    );
+
     // Build metadata using the authoritative price IDs
     for (const priceId of allPriceIds) {
-      const price = await stripe.prices.retrieve(priceId);
+      const price = await stripe.prices.retrieve(priceId, { expand: ["product"] });
+      const kind = price.metadata?.kind;
+      const type =
+        kind === "seasonal" || (!kind && SEASONAL_PLAN_PRICES.has(priceId))
+          ? 'seasonal'
+          : 'base';
+      const product =
+        typeof price.product === "object" && !price.product.deleted ? price.product : null;
+      const propertyIndex = propertyIndexByPrice.get(priceId);
       
       priceMetadata[priceId] = {
-        name: priceId === PRICE_BASE ? 'Base Trash Service' : 'Seasonal 2nd Pickup',
-        type: priceId === PRICE_BASE ? 'base' : 'seasonal',
-        amount: price.unit_amount || 0
+        name: kind && product
+          ? product.name
+          : type === 'base' ? 'Base Trash Service' : 'Seasonal 2nd Pickup',
+        type,
+        amount: price.unit_amount || 0,
+        ...(propertyIndex != null && { property: propertyIndex }),
       };
     }
 
+    // 6) Project the next 12 invoices from the schedule (or the plain subscription items)
+    const unitAmounts = Object.fromEntries(
+      Object.entries(priceMetadata).map(([id, m]) => [id, m.amount])
+    );
+    const nowEpoch = Math.floor(Date.now() / 1000);
+    const forecastPhases: ForecastPhase[] = schedule?.phases?.length
+      ? schedule.phases.map((p: SchedulePhase) => ({
+          start: p.start_date,
+          end: p.end_date ?? null,
+          items: (p.items ?? []).flatMap((i) => {
+            const price = typeof i.price === "string" ? i.price : i.price?.id;
+            return price ? [{ price, quantity: i.quantity ?? 0 }] : [];
+          }),
+          proration_behavior: p.proration_behavior,
+        }))
+      : [
+          {
+            start: sub.start_date,
+            end: null,
+            items: sub.items.data.map((i) => ({
+              price: typeof i.price === "string" ? i.price : i.price.id,
+              quantity: i.quantity ?? 0,
+            })),
+          },
+        ];
+    const forecast = {
+      currency: nextInvoice?.currency ?? "USD",
+      invoices: forecastInvoices({
+        phases: forecastPhases,
+        unitAmounts,
+        fromEpoch: nowEpoch,
+      }).map((inv) => ({
+        date: toIso(inv.date),
+        period: { start: toIso(inv.periodStart), end: toIso(inv.periodEnd) },
+        total: inv.total,
+        lines: inv.lines.map((l) => ({
+          price: l.price,
+          quantity: l.quantity,
+          amount: l.amount,
+          kind: l.kind,
+          period: { start: toIso(l.periodStart), end: toIso(l.periodEnd) },
+        })),
+      })),
+    };
+
+    // 7) Service addresses, in addr_rules order (the index the amendment endpoints take)
+    const customer = resolvedCustomerId
+      ? await stripe.customers.retrieve(resolvedCustomerId)
+      : null;
+    const addresses = readServiceAddresses(
+      sub.id,
+      customer && !customer.deleted ? customer.metadata : null
+    );
+    const properties = readAddrRules(sub).map((entry, index) => {
+      const addr = addresses.find((a) => a.index === index);
+      return {
+        index,
+        address: addr ? formatServiceAddress(addr) : `${entry.c} ${entry.z}`.trim(),
+        seasonal: entry.s >= 0 && (entry.o ?? 1) === 1,
+        seasonalOnly: entry.so === 1, // billed and served only in season
+        // Upcoming vacation holds as local dates; `end` is the last day away.
+        holds: (entry.h ?? [])
+          .filter(([, end]) => end > nowEpoch)
+          .map(([start, end]) => ({
+            start: isoDate(zonedParts(start)),
+            end: isoDate(zonedParts(end - 1)),
+          })),
+      };
+    });
+
     return NextResponse.json({
       subscriptionId: sub.id,
       customerId: resolvedCustomerId,
       nextInvoice,
       schedule: schedSummary,
       priceMetadata,
+      forecast,
+      plan: sub.metadata?.signup_plan ?? "trash",
+      billing: {
+        collectionMethod: sub.collection_method,
+        daysUntilDue: sub.days_until_due ?? null, // net terms for invoiced accounts
+      },
+      properties,
+      // Both links carry the signed feed token; without a feed secret there is no calendar
+      calendar: hasCalendarFeedSecret()
+        ? (() => {
+            const feedUrl = calendarFeedUrl(new URL(req.url).origin, sub.id);
+            return { downloadUrl: `${feedUrl}?download=1`, feedUrl };
+          })()
+        : null,
     });
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
@@ -0,0 +1,147 @@
+// src/app/api/stripe/subscription-properties/[index]/route.ts
+import { NextResponse } from "next/server";
+import { serverOnly } from "@/lib/validation/server-only";
+import { getStripe } from "@/lib/stripe/stripe";
+import { pickupDates } from "@/lib/calendar/pickups";
+import { planPropertyAmendment } from "@/lib/stripe/amendments";
+import { readAddrRules, readServiceAddresses } from "@/lib/db/repository";
+import { nextLocalMidnight } from "@/lib/stripe/scheduleSplice";
+import { resolveRuleForAddress, type Weekday } from "@/lib/serviceAreas/serviceAreas";
+import "@/lib/serviceAreas/store"; // holiday policy follows the hot-reloaded rule file
+import {
+  amendmentSummary,
+  applyAmendment,
+  loadAmendmentTarget,
+  parseLocalDate,
+  unitAmountsFor,
+} from "../_shared";
+import { rejectUnlessOwner, requireCustomerSession } from "../../_auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ index: string }> };
+
+type RemovePropertyBody = {
+  subscriptionId?: string;
+  effectiveDate?: string; // "YYYY-MM-DD", first day without service; defaults to tomorrow
+  confirm?: boolean; // false/absent = quote only
+};
+
+const MAX_NOTICE_DAYS = 365;
+
+/**
+ * Remove a service address from a live subscription. Billing for the property
+ * stops at local midnight starting `effectiveDate`; the rest of that month comes
+ * back as a proration credit on the next invoice. Without `confirm` this only
+ * quotes (monthly amount before and after, that invoice, the final pickup).
+ * Needs the customer session of the subscription's owner.
+ */
+export async function DELETE(req: Request, { params }: Ctx) {
+  serverOnly();
+
+  const { index: rawIndex } = await params;
+  const index = Number(rawIndex);
+  if (!Number.isInteger(index) || index < 0) {
+    return NextResponse.json({ error: "Invalid property index" }, { status: 400 });
+  }
+  const body = (await req.json().catch(() => null)) as RemovePropertyBody | null;
+  const subscriptionId = body?.subscriptionId;
+  if (!subscriptionId) {
+    return NextResponse.json({ error: "Missing subscriptionId" }, { status: 400 });
+  }
+  const session = requireCustomerSession(req, subscriptionId);
+  if (session instanceof NextResponse) return session;
+
+  const nowEpoch = Math.floor(Date.now() / 1000);
+  const tomorrow = nextLocalMidnight(nowEpoch);
+  let effectiveAt = tomorrow;
+  if (body.effectiveDate != null) {
+    const parsed = parseLocalDate(body.effectiveDate);
+    if (parsed == null) {
+      return NextResponse.json({ error: "effectiveDate must be YYYY-MM-DD" }, { status: 400 });
+    }
+    effectiveAt = parsed;
+    if (effectiveAt < tomorrow || effectiveAt > nowEpoch + MAX_NOTICE_DAYS * 86400) {
+      return NextResponse.json(
+        { error: `effectiveDate must be between tomorrow and ${MAX_NOTICE_DAYS} days from now` },
+        { status: 400 }
+      );
+    }
+  }
+
+  try {
+    const stripe = getStripe();
+    const target = await loadAmendmentTarget(stripe, subscriptionId);
+    if (target instanceof NextResponse) return target;
+    const denied = rejectUnlessOwner(session, target.sub);
+    if (denied) return denied;
+    const { sub, sched, customer } = target;
+
+    const current = readAddrRules(sub);
+    const entry = current[index];
+    if (!entry) {
+      return NextResponse.json({ error: "Property not found" }, { status: 404 });
+    }
+    if (current.length === 1) {
+      return NextResponse.json(
+        { error: "This is the only property; cancel the subscription instead" },
+        { status: 409 }
+      );
+    }
+
+    const addresses = readServiceAddresses(sub.id, customer.metadata);
+    const address = addresses.find((a) => a.index === index);
+    const remaining = current.filter((_, i) => i !== index);
+    const amendment = planPropertyAmendment(sched, sub, remaining, { nowEpoch, effectiveAt });
+
+    // Last pickup before service stops, for the confirmation message.
+    const rule = resolveRuleForAddress({
+      line1: address?.line1 ?? "",
+      city: entry.c ?? "",
+      state: entry.st ?? address?.state ?? "",
+      zip: entry.z ?? "",
+      location: entry.g,
+    });
+    const seasonal = entry.s >= 0 && (entry.o ?? 1) === 1;
+    const finalPickup =
+      pickupDates(
+        {
+          baseDay: entry.b as Weekday,
+          secondaryDay: seasonal ? (entry.s as Weekday) : undefined,
+          seasonWindows: entry.w.map(([start, end]) => ({ start, end })),
+          seasonalOnly: entry.so === 1,
+          holds: entry.h?.map(([start, end]) => ({ start, end })),
+          holidayPolicy: rule?.holidayPolicy,
+        },
+        nowEpoch,
+        amendment.effectiveAt
+      )
+        .filter((p) => p.status !== "skipped")
+        .at(-1)?.date ?? null;
+
+    const prices = await unitAmountsFor(stripe, amendment);
+    const property = { index, city: entry.c, zip: entry.z, finalPickup };
+    const quote = amendmentSummary(amendment, prices);
+    if (!body.confirm) {
+      return NextResponse.json({ subscriptionId, confirmed: false, property, ...quote });
+    }
+
+    // Later addresses move up one place, matching their addr_rules entries.
+    await applyAmendment(
+      stripe,
+      target,
+      amendment,
+      addresses
+        .filter((a) => a.index !== index)
+        .map((a) => (a.index > index ? { ...a, index: a.index - 1 } : a))
+    );
+
+    console.log("[AMEND] removed property", index, "from", subscriptionId);
+    return NextResponse.json({ subscriptionId, confirmed: true, property, ...quote });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error("remove property error:", msg);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,129 @@
+// src/app/api/stripe/subscription-properties/_shared.ts
+import { NextResponse } from "next/server";
+import type Stripe from "stripe";
+import { zonedMidnightEpoch } from "@/lib/date/zoned";
+import { amendmentQuote, type PropertyAmendment } from "@/lib/stripe/amendments";
+import { rewriteChunkedMeta, type ServiceAddressMeta } from "@/lib/stripe/metadata";
+import { addrRulesRefMetadata, saveAddrRules } from "@/lib/db/repository";
+
+// ——— shared by add (POST), remove (DELETE) and holds ———
+
+const LIVE_STATUSES = new Set(["active", "trialing", "past_due"]);
+
+const toIso = (epoch?: number | null) =>
+  typeof epoch === "number" ? new Date(epoch * 1000).toISOString() : null;
+
+/** "YYYY-MM-DD" → local midnight starting that day (service timezone), or null. */
+export function parseLocalDate(value: unknown): number | null {
+  const m = typeof value === "string" ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+  return m ? zonedMidnightEpoch(Number(m[1]), Number(m[2]) - 1, Number(m[3])) : null;
+}
+
+export type AmendmentTarget = {
+  sub: Stripe.Subscription;
+  sched: Stripe.SubscriptionSchedule;
+  customer: Stripe.Customer;
+};
+
+/** The subscription, its schedule and customer, or the response explaining why it can't be amended. */
+export async function loadAmendmentTarget(
+  stripe: Stripe,
+  subscriptionId: string
+): Promise<AmendmentTarget | NextResponse> {
+  const sub = await stripe.subscriptions.retrieve(subscriptionId);
+  if (!LIVE_STATUSES.has(sub.status)) {
+    return NextResponse.json(
+      { error: `Subscription is ${sub.status}; only active subscriptions can be changed` },
+      { status: 409 }
+    );
+  }
+  const scheduleId = typeof sub.schedule === "string" ? sub.schedule : sub.schedule?.id;
+  if (!scheduleId) {
+    return NextResponse.json(
+      { error: "Subscription schedule is still being set up; try again shortly" },
+      { status: 409 }
+    );
+  }
+  const customerId = typeof sub.customer === "string" ? sub.customer : sub.customer.id;
+  const [sched, customer] = await Promise.all([
+    stripe.subscriptionSchedules.retrieve(scheduleId),
+    stripe.customers.retrieve(customerId),
+  ]);
+  if (customer.deleted) {
+    return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+  }
+  return { sub, sched, customer };
+}
+
+/** Unit amounts (cents) and currency for every price the amendment bills. */
+export async function unitAmountsFor(stripe: Stripe, amendment: PropertyAmendment) {
+  const ids = new Set<string>();
+  for (const p of amendment.plan.phases) p.items.forEach((i) => ids.add(i.price));
+  amendment.before.forEach((i) => ids.add(i.price));
+  const prices = await Promise.all([...ids].map((id) => stripe.prices.retrieve(id)));
+  return {
+    currency: (prices[0]?.currency ?? "usd").toUpperCase(),
+    unitAmounts: Object.fromEntries(prices.map((p) => [p.id, p.unit_amount ?? 0])),
+  };
+}
+
+/** Response body describing the change: effective date, monthly totals and the invoice after it. */
+export function amendmentSummary(
+  amendment: PropertyAmendment,
+  prices: { currency: string; unitAmounts: Record<string, number> }
+) {
+  const { monthlyBefore, monthlyAfter, nextInvoice } = amendmentQuote(
+    amendment,
+    prices.unitAmounts
+  );
+  return {
+    effectiveAt: toIso(amendment.effectiveAt),
+    quotedAt: toIso(amendment.quoteAt),
+    currency: prices.currency,
+    monthly: { current: monthlyBefore, updated: monthlyAfter },
+    nextInvoice: nextInvoice && {
+      date: toIso(nextInvoice.date),
+      total: nextInvoice.total,
+      lines: nextInvoice.lines.map((l) => ({
+        price: l.price,
+        quantity: l.quantity,
+        amount: l.amount,
+        kind: l.kind,
+      })),
+    },
+    pendingPhases: amendment.plan.pending.length,
+  };
+}
+
+/**
+ * Write the amendment: schedule phases first (the part that bills), then the new
+ * set of properties to the repository and its version to the subscription.
+ * Without `addresses` (the set of properties is unchanged) each keeps its address.
+ */
+export async function applyAmendment(
+  stripe: Stripe,
+  target: AmendmentTarget,
+  amendment: PropertyAmendment,
+  addresses?: ServiceAddressMeta[]
+) {
+  const { sub, sched, customer } = target;
+  await stripe.subscriptionSchedules.update(sched.id, {
+    phases: amendment.plan.phases,
+    end_behavior: "release",
+  });
+
+  const version = saveAddrRules(sub, amendment.entries, { source: "amendment", addresses });
+  await stripe.subscriptions.update(sub.id, {
+    metadata: {
+      ...amendment.subscriptionMetadata,
+      ...addrRulesRefMetadata(sub.metadata, version),
+    },
+  });
+  if (!addresses) return;
+  await stripe.customers.update(customer.id, {
+    metadata: {
+      ...rewriteChunkedMeta(customer.metadata, "service_addresses", null),
+      service_address_count: String(addresses.length),
+    },
+  });
+}
@@ -0,0 +1,162 @@
+// src/app/api/stripe/subscription-properties/holds/route.ts
+import { NextResponse } from "next/server";
+import { serverOnly } from "@/lib/validation/server-only";
+import { getStripe } from "@/lib/stripe/stripe";
+import { planPropertyAmendment } from "@/lib/stripe/amendments";
+import { MAX_HOLD_DAYS, withHold, withoutHold } from "@/lib/stripe/holds";
+import { readAddrRules } from "@/lib/db/repository";
+import { nextLocalMidnight } from "@/lib/stripe/scheduleSplice";
+import {
+  amendmentSummary,
+  applyAmendment,
+  loadAmendmentTarget,
+  parseLocalDate,
+  unitAmountsFor,
+} from "../_shared";
+import { rejectUnlessOwner, requireCustomerSession } from "../../_auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type HoldBody = {
+  subscriptionId?: string;
+  properties?: number[]; // addr_rules indexes to pause
+  start?: string; // "YYYY-MM-DD", first day away
+  end?: string; // "YYYY-MM-DD", last day away
+  confirm?: boolean; // false/absent = quote only
+};
+
+type CancelHoldBody = {
+  subscriptionId?: string;
+  property?: number;
+  start?: string; // "YYYY-MM-DD" the hold starts on
+};
+
+const toIso = (epoch: number) => new Date(epoch * 1000).toISOString();
+
+/**
+ * Pause pickups (and billing) for some properties over a date range. Without
+ * `confirm` this only quotes: the monthly amount during the hold against what it
+ * would be, and the invoice carrying the credit. The hold is written to the
+ * properties' addr_rules entries and the schedule gets the matching phases.
+ * Holds reveal when a home is empty, so both methods need the owner's session.
+ */
+export async function POST(req: Request) {
+  serverOnly();
+
+  const body = (await req.json().catch(() => null)) as HoldBody | null;
+  if (!body?.subscriptionId) {
+    return NextResponse.json({ error: "Missing subscriptionId" }, { status: 400 });
+  }
+  const { subscriptionId } = body;
+  const session = requireCustomerSession(req, subscriptionId);
+  if (session instanceof NextResponse) return session;
+  const indexes = Array.isArray(body.properties) ? [...new Set(body.properties)] : [];
+  if (!indexes.length || indexes.some((i) => !Number.isInteger(i) || i < 0)) {
+    return NextResponse.json(
+      { error: "properties must list at least one property index" },
+      { status: 400 }
+    );
+  }
+  const start = parseLocalDate(body.start);
+  const lastDay = parseLocalDate(body.end);
+  if (start == null || lastDay == null) {
+    return NextResponse.json({ error: "start and end must be YYYY-MM-DD" }, { status: 400 });
+  }
+  // The hold runs until midnight after the last day away (a few hours' DST slack either way).
+  const end = nextLocalMidnight(lastDay + 3 * 3600);
+  const nowEpoch = Math.floor(Date.now() / 1000);
+  if (start < nextLocalMidnight(nowEpoch)) {
+    return NextResponse.json({ error: "A hold can start tomorrow at the earliest" }, { status: 400 });
+  }
+  if (end <= start || end - start > MAX_HOLD_DAYS * 86400 + 7200) {
+    return NextResponse.json(
+      { error: `end must be on or after start, and a hold can last at most ${MAX_HOLD_DAYS} days` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const stripe = getStripe();
+    const target = await loadAmendmentTarget(stripe, subscriptionId);
+    if (target instanceof NextResponse) return target;
+    const denied = rejectUnlessOwner(session, target.sub);
+    if (denied) return denied;
+    const { sub, sched } = target;
+
+    const current = readAddrRules(sub);
+    if (indexes.some((i) => i >= current.length)) {
+      return NextResponse.json({ error: "Property not found" }, { status: 404 });
+    }
+    let entries;
+    try {
+      entries = withHold(current, indexes, [start, end], nowEpoch);
+    } catch (err) {
+      return NextResponse.json(
+        { error: err instanceof Error ? err.message : String(err) },
+        { status: 409 }
+      );
+    }
+
+    const amendment = planPropertyAmendment(sched, sub, entries, { nowEpoch, quoteAt: start });
+    const prices = await unitAmountsFor(stripe, amendment);
+    const hold = { properties: indexes, start: toIso(start), end: toIso(end) };
+    const quote = amendmentSummary(amendment, prices);
+    if (!body.confirm) {
+      return NextResponse.json({ subscriptionId, confirmed: false, hold, ...quote });
+    }
+
+    await applyAmendment(stripe, target, amendment);
+    console.log("[AMEND] hold", indexes, body.start, "–", body.end, "on", subscriptionId);
+    return NextResponse.json({ subscriptionId, confirmed: true, hold, ...quote });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error("hold error:", msg);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+/** Cancel an upcoming hold. Billing for the property resumes as scheduled. */
+export async function DELETE(req: Request) {
+  serverOnly();
+
+  const body = (await req.json().catch(() => null)) as CancelHoldBody | null;
+  const start = parseLocalDate(body?.start);
+  if (!body?.subscriptionId || !Number.isInteger(body.property) || start == null) {
+    return NextResponse.json(
+      { error: "subscriptionId, property and start (YYYY-MM-DD) are required" },
+      { status: 400 }
+    );
+  }
+  const session = requireCustomerSession(req, body.subscriptionId);
+  if (session instanceof NextResponse) return session;
+  const nowEpoch = Math.floor(Date.now() / 1000);
+  if (start < nextLocalMidnight(nowEpoch)) {
+    return NextResponse.json(
+      { error: "Only holds that have not started can be cancelled" },
+      { status: 409 }
+    );
+  }
+
+  try {
+    const stripe = getStripe();
+    const target = await loadAmendmentTarget(stripe, body.subscriptionId);
+    if (target instanceof NextResponse) return target;
+    const denied = rejectUnlessOwner(session, target.sub);
+    if (denied) return denied;
+    const { sub, sched } = target;
+
+    const entries = withoutHold(readAddrRules(sub), body.property!, start);
+    if (!entries) {
+      return NextResponse.json({ error: "Hold not found" }, { status: 404 });
+    }
+    const amendment = planPropertyAmendment(sched, sub, entries, { nowEpoch, quoteAt: start });
+    await applyAmendment(stripe, target, amendment);
+    console.log("[AMEND] cancelled hold", body.property, body.start, "on", body.subscriptionId);
+    return NextResponse.json({ subscriptionId: body.subscriptionId, cancelled: true });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error("cancel hold error:", msg);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
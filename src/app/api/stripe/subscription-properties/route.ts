@@ -0,0 +1,187 @@
+// src/app/api/stripe/subscription-properties/route.ts
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { serverOnly } from "@/lib/validation/server-only";
+import { getStripe } from "@/lib/stripe/stripe";
+import { PRICE_BY_PLAN } from "@/features/payments/stripe/server/prices";
+import { planPropertyAmendment } from "@/lib/stripe/amendments";
+import { readAddrRules, readServiceAddresses } from "@/lib/db/repository";
+import {
+  createPropertyPrice,
+  fitsPerPropertyItems,
+  hasSeasonalItem,
+} from "@/lib/stripe/propertyPrices";
+import { AddressSchema } from "@/features/onboarding/personal/personal.schema";
+import {
+  buildAddrRulesCompact,
+  cleanZip,
+  invalidSignupResponse,
+  seasonlessResponse,
+} from "../create-subscription/_shared";
+import {
+  amendmentSummary,
+  applyAmendment,
+  loadAmendmentTarget,
+  unitAmountsFor,
+} from "./_shared";
+import { rejectUnlessOwner, requireCustomerSession } from "../_auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// The address is checked like a signup's service address (same rules, same field errors)
+const AddPropertyRequestSchema = z.object({
+  subscriptionId: z.string().trim().min(1, "Missing subscriptionId"),
+  service: AddressSchema,
+  seasonal_2nd: z.boolean().default(false),
+  confirm: z.boolean().default(false), // false = quote only
+});
+
+/**
+ * Add a service address to a live subscription. Without `confirm` this only
+ * quotes: the address is resolved and the new schedule laid out, and the
+ * response carries the monthly amount before and after plus the next invoice.
+ * With `confirm: true` the schedule and metadata are written. Billing for the new
+ * property starts at the next local midnight, prorated for the rest of the month.
+ * Needs the customer session of the subscription's owner.
+ */
+export async function POST(req: Request) {
+  serverOnly();
+
+  let raw: unknown;
+  try {
+    raw = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+  const parsed = AddPropertyRequestSchema.safeParse(raw);
+  if (!parsed.success) return invalidSignupResponse(parsed.error, "Invalid property request");
+  const body = parsed.data;
+  const { subscriptionId, service } = body;
+  const session = requireCustomerSession(req, subscriptionId);
+  if (session instanceof NextResponse) return session;
+
+  try {
+    const stripe = getStripe();
+    const target = await loadAmendmentTarget(stripe, subscriptionId);
+    if (target instanceof NextResponse) return target;
+    const denied = rejectUnlessOwner(session, target.sub);
+    if (denied) return denied;
+    const { sub, sched, customer } = target;
+
+    const nowEpoch = Math.floor(Date.now() / 1000);
+    const {
+      compact: [entry],
+      failures,
+      seasonless,
+    } = buildAddrRulesCompact([service], [{ seasonal_2nd: body.seasonal_2nd }], nowEpoch, {
+      seasonalOnly: sub.metadata?.signup_plan === "seasonal_only",
+    });
+    if (failures.length || !entry) {
+      return NextResponse.json(
+        { error: "This address is outside our service areas", failures: [0] },
+        { status: 400 }
+      );
+    }
+    const seasonlessError = seasonlessResponse(seasonless);
+    if (seasonlessError) return seasonlessError;
+
+    const current = readAddrRules(sub);
+    const addresses = readServiceAddresses(sub.id, customer.metadata);
+    const line1 = service.line1.toLowerCase();
+    if (
+      addresses.some(
+        (a) => a.line1.trim().toLowerCase() === line1 && a.postal_code === entry.z.slice(0, 5)
+      )
+    ) {
+      return NextResponse.json(
+        { error: "This address is already on your subscription" },
+        { status: 409 }
+      );
+    }
+
+    // Per-property subscriptions need the new address's own prices; plan prices stand in for the quote.
+    const perProperty = current.length > 0 && current.every((e) => e.p?.length);
+    const index = current.length;
+    const account = sub.metadata?.signup_account_type === "business" ? "business" : "individual";
+    const priceMap = PRICE_BY_PLAN[account];
+    if (perProperty) {
+      if (!fitsPerPropertyItems([...current, entry])) {
+        return NextResponse.json(
+          { error: "This subscription has reached the maximum number of properties" },
+          { status: 409 }
+        );
+      }
+      entry.p = hasSeasonalItem(entry) ? [priceMap.trash, priceMap.seasonal_2nd] : [priceMap.trash];
+    }
+
+    const quoteAmendment = planPropertyAmendment(sched, sub, [...current, entry], { nowEpoch });
+    const prices = await unitAmountsFor(stripe, quoteAmendment);
+    const quote = amendmentSummary(quoteAmendment, prices);
+    const property = {
+      index,
+      city: entry.c,
+      zip: entry.z,
+      seasonal: hasSeasonalItem(entry),
+      seasonalWindows: entry.w.map(([start, end]) => ({
+        start: new Date(start * 1000).toISOString(),
+        end: new Date(end * 1000).toISOString(),
+      })),
+    };
+    if (!body.confirm) {
+      return NextResponse.json({ subscriptionId, confirmed: false, property, ...quote });
+    }
+
+    if (perProperty) {
+      const address = `${service.line1}, ${service.city}`;
+      const [trashPrice, seasonalPrice] = await Promise.all([
+        stripe.prices.retrieve(priceMap.trash),
+        stripe.prices.retrieve(priceMap.seasonal_2nd),
+      ]);
+      const ids = [
+        await createPropertyPrice(stripe, {
+          customerId: customer.id,
+          index,
+          kind: "base",
+          address,
+          planPrice: trashPrice,
+        }),
+      ];
+      if (hasSeasonalItem(entry)) {
+        ids.push(
+          await createPropertyPrice(stripe, {
+            customerId: customer.id,
+            index,
+            kind: "seasonal",
+            address,
+            planPrice: seasonalPrice,
+          })
+        );
+      }
+      entry.p = ids;
+    }
+    const amendment = perProperty
+      ? planPropertyAmendment(sched, sub, [...current, entry], { nowEpoch })
+      : quoteAmendment;
+
+    await applyAmendment(stripe, target, amendment, [
+      ...addresses,
+      {
+        index: addresses.length,
+        line1: service.line1,
+        line2: service.line2 ?? "",
+        city: service.city,
+        state: service.state,
+        postal_code: cleanZip(service.postalCode),
+        seasonal_selected: body.seasonal_2nd,
+      },
+    ]);
+
+    console.log("[AMEND] added property", index, "to", subscriptionId);
+    return NextResponse.json({ subscriptionId, confirmed: true, property, ...quote });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error("add property error:", msg);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
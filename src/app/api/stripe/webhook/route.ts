@@ -3,11 +3,12 @@ import { NextResponse } from "next/server";
 import Stripe from "stripe";
 import { getStripe } from "@/lib/stripe/stripe";
 import { requireWebhookSecret } from "@/lib/env/env.server";
-import { alreadyProcessed } from "@/lib/stripe/webhook/dedupe";
+import { alreadyProcessed, forgetProcessed } from "@/lib/stripe/webhook/dedupe";
 import { asStr } from "@/lib/util/strings";
 import { getSubscriptionIdFromInvoice } from "@/lib/stripe/invoices";
 import { ensureScheduleAttached, upsertScheduleFromSubscription } from "@/lib/stripe/scheduleAttach";
-// import { nextSeasonWindow } from "@/lib/season";
+import { updateSubscriptionState } from "@/lib/db/repository";
+import { emailInvoiceToTeam } from "@/lib/mail/teamInvoice";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -113,6 +114,12 @@ export async function POST(req: Request) {
         break;
       }
 
+      case "invoice.finalized": {
+        // Stripe only emails the billing contact; copy the team
+        await emailInvoiceToTeam(event.data.object as Stripe.Invoice);
+        break;
+      }
+
       case "invoice.payment_failed": {
         const invoice = event.data.object as InvoiceLike;
         await onInvoiceFailed(invoice);
@@ -138,6 +145,13 @@ export async function POST(req: Request) {
         break;
       }
 
+      case "customer.subscription.deleted": {
+        const sub = event.data.object as SubscriptionLike;
+        updateSubscriptionState(sub.id, { status: sub.status });
+        console.log("customer.subscription.deleted", { subscriptionId: sub.id });
+        break;
+      }
+
       case "subscription_schedule.created":
       case "subscription_schedule.updated": {
         const sched = event.data.object as Stripe.SubscriptionSchedule;
@@ -152,6 +166,7 @@ export async function POST(req: Request) {
   } catch (e) {
     const msg = e instanceof Error ? e.message : String(e);
     console.error("Webhook handler error:", event.type, msg);
+    forgetProcessed(event.id); // Stripe's retry should run the handler again
     return NextResponse.json({ error: "Handler error" }, { status: 500 });
   }
 
@@ -212,6 +227,10 @@ async function onSubscriptionUpdated(sub: SubscriptionLike, stripe: Stripe) {
     periodEnd,
     items,
   });
+  updateSubscriptionState(subscriptionId, {
+    status,
+    scheduleId: asStr(typeof sub.schedule === "string" ? sub.schedule : sub.schedule?.id) || null,
+  });
 
   if (["active", "trialing", "past_due", "unpaid"].includes(status)) {
     await ensureScheduleAttached(subscriptionId, stripe);
@@ -233,143 +252,5 @@ async function onScheduleUpserted(sched: Stripe.SubscriptionSchedule) {
     subscriptionId,
     phases,
   });
+  if (subscriptionId) updateSubscriptionState(subscriptionId, { scheduleId });
 }
-
-/* ----------------------------- Schedule attach/update routine ----------------------------- */
-
-
-
-/* ----------------------------- Evergreen extender ( potential future use) ----------------------------- */
-/**
- * maybeExtendEvergreen(scheduleId):
- *  - Skips if any open-ended phase exists.
- *  - Skips when phase count is at Stripe's cap (10).
- *  - Skips if tail end is comfortably beyond thresholdDays.
- *  - Skips if next seasonal start is >90 days after the tail.
- *  - Appends only future phases; avoids rewriting ended phases.
- *  - Persists 'extended_until' to avoid repeated work for the same season end.
- * Note: currently builds an empty append set; keep as a scaffold for the nightly extender.
- */
-// async function maybeExtendEvergreen(
-//   scheduleId: string,
-//   opts?: { thresholdDays?: number; appendMonths?: number }
-// ) {
-//   const thresholdDays = opts?.thresholdDays ?? 60;
-
-//   const sched = await stripe.subscriptionSchedules.retrieve(scheduleId, {
-//     expand: ["phases", "subscription"],
-//   });
-
-//   const hasOpenEnded = (sched.phases ?? []).some((p) => {
-//     const ph = p as PhaseRead;
-//     return typeof ph.end_date !== "number" && !hasIterations(ph);
-//   });
-//   if (hasOpenEnded) {
-//     console.log("[WH] evergreen: open-ended phase present → skip extension");
-//     return;
-//   }
-
-//   const existing = sched.phases ?? [];
-//   const MAX = 10;
-//   if (existing.length >= MAX) {
-//     console.log(
-//       "[WH] maybeExtendEvergreen: no room to append phases; skipping"
-//     );
-//     return;
-//   }
-
-//   const tailEnd = Math.max(...existing.map((p) => p.end_date ?? 0));
-
-//   const now = Math.floor(Date.now() / 1000);
-//   const threshold = now + thresholdDays * 24 * 60 * 60;
-
-//   if (tailEnd > threshold) {
-//     console.log("[WH] evergreen: tail comfortably beyond threshold → skip");
-//     return;
-//   }
-
-//   const NINETY_DAYS = 90 * 24 * 60 * 60;
-//   const next = nextSeasonWindow(tailEnd);
-//   if (next.start - tailEnd > NINETY_DAYS) {
-//     console.log("[WH] evergreen: next season too far (>90d) → skip");
-//     return;
-//   }
-
-//   const alreadyExtendedUntil = Number(sched.metadata?.extended_until || 0);
-
-//   if (tailEnd <= now) {
-//     console.log("[WH] maybeExtendEvergreen: tail already past; not appending");
-//     return;
-//   }
-
-//   const activeOrFuture = existing.filter(
-//     (p) => !p.end_date || p.end_date > now
-//   );
-//   const preserved: Stripe.SubscriptionScheduleUpdateParams.Phase[] =
-//     activeOrFuture.map((p) => {
-//       const items = (p.items ?? []).map((it) => ({
-//         price: typeof it.price === "string" ? it.price : it.price.id,
-//         quantity: it.quantity!,
-//       }));
-//       const obj: PhaseUpdate = { items };
-//       if (typeof p.start_date === "number") obj.start_date = p.start_date;
-//       if (typeof p.end_date === "number") obj.end_date = p.end_date;
-//       const pr = p as PhaseRead;
-//       if (hasIterations(pr)) obj.iterations = pr.iterations as number;
-//       return obj;
-//     });
-
-//   const BASE_PRICE = PRICE_BY_PLAN.trash;
-//   const SEASONAL_PRICE = PRICE_BY_PLAN.seasonal_2nd;
-//   let baseQty = 0;
-//   let seasonalQtyMax = 0;
-//   for (const p of existing) {
-//     for (const it of p.items ?? []) {
-//       const priceId = typeof it.price === "string" ? it.price : it.price.id;
-//       const q = typeof it.quantity === "number" ? it.quantity : 0;
-//       if (priceId === BASE_PRICE) baseQty = q;
-//       if (priceId === SEASONAL_PRICE && q > seasonalQtyMax) seasonalQtyMax = q;
-//     }
-//   }
-//   if (baseQty <= 0) {
-//     console.log("[WH] maybeExtendEvergreen: no baseQty found; skipping");
-//     return;
-//   }
-
-//   if (alreadyExtendedUntil >= next.end) {
-//     console.log(
-//       "[WH] maybeExtendEvergreen: already extended to",
-//       alreadyExtendedUntil,
-//       "≥",
-//       next.end
-//     );
-//     return;
-//   }
-
-//   const toAppend: Stripe.SubscriptionScheduleUpdateParams.Phase[] = [];
-
-//   const updatePayload: Stripe.SubscriptionScheduleUpdateParams = {
-//     phases: [...preserved, ...toAppend],
-//     end_behavior: "release",
-//     metadata: { ...sched.metadata, extended_until: String(next.end) },
-//   };
-
-//   try {
-//     await stripe.subscriptionSchedules.update(scheduleId, updatePayload);
-//     console.log(
-//       "[WH] maybeExtendEvergreen: extended schedule",
-//       scheduleId,
-//       "{ appended:",
-//       toAppend.length,
-//       "}"
-//     );
-//   } catch (err) {
-//     console.error(
-//       "[WH] maybeExtendEvergreen update ERROR:",
-//       (err as { message?: string })?.message
-//     );
-//   }
-// }
-
-// evergreen extender scaffold end
-//------------------------------------
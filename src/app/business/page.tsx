@@ -0,0 +1,7 @@
+import { PersonalOnboardForm } from "@/features/onboarding/personal/PersonalOnboardForm";
+
+
+export default function BusinessPage() {
+
+  return <PersonalOnboardForm account="business" />;
+}
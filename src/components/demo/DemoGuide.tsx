@@ -4,53 +4,62 @@ import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Info, X, Calendar, MapPin, DollarSign } from "lucide-react";
+import { resolveRuleForAddress, type AreaRule } from "@/lib/serviceAreas/serviceAreas";
+import { useAreaRules } from "@/lib/serviceAreas/useAreaRules";
+import { currentOrNextSeasonsWindow, formatSeasons } from "@/lib/season/recurring";
+import { UpcomingPickups } from "@/components/schedule/UpcomingPickups";
 
 type DemoAddress = {
   city: string;
   zip: string;
   state: string;
-  seasonalStatus: "In Season (Active)" | "Out of Season" | "No Seasonal Service";
-  seasonDates?: string;
-  pickupDays: string;
 };
 
+type SeasonalStatus = "In Season (Active)" | "Out of Season" | "No Seasonal Service";
+
 const DEMO_ADDRESSES: DemoAddress[] = [
-  {
-    city: "Topsail Beach",
-    zip: "28445",
-    state: "NC",
-    seasonalStatus: "In Season (Active)",
-    seasonDates: "Nov 1, 2025 - Mar 1, 2026",
-    pickupDays: "Mon (base) + Thu (seasonal)"
-  },
-  {
-    city: "Surf City",
-    zip: "28445",
-    state: "NC",
-    seasonalStatus: "In Season (Active)",
-    seasonDates: "Oct 15, 2025 - Feb 28, 2026",
-    pickupDays: "Tue (base) + Fri (seasonal)"
-  },
-  {
-    city: "North Topsail Beach",
-    zip: "28460",
-    state: "NC",
-    seasonalStatus: "Out of Season",
-    seasonDates: "Apr 1, 2026 - Sep 30, 2026",
-    pickupDays: "Wed (base) + Sat (seasonal when in season)"
-  },
-  {
-    city: "Wilmington",
-    zip: "28401",
-    state: "NC",
-    seasonalStatus: "No Seasonal Service",
-    pickupDays: "Tue (base only)"
-  }
+  { city: "Topsail Beach", zip: "28445", state: "NC" },
+  { city: "Surf City", zip: "28445", state: "NC" },
+  { city: "North Topsail Beach", zip: "28460", state: "NC" },
+  { city: "Wilmington", zip: "28401", state: "NC" },
 ];
 
+const DAY = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"] as const;
+
+// Status, season and pickup days come from the live service-area rules.
+function describe(addr: DemoAddress, now: number, rules: AreaRule[]) {
+  const rule = resolveRuleForAddress({ line1: "", ...addr }, rules);
+  if (!rule) return null;
+  const seasonal = rule.secondaryDay != null && !!rule.seasons?.length;
+  const win = seasonal ? currentOrNextSeasonsWindow(rule.seasons!, now) : null;
+  const status: SeasonalStatus = !seasonal
+    ? "No Seasonal Service"
+    : win && win.start <= now
+    ? "In Season (Active)"
+    : "Out of Season";
+  return {
+    rule,
+    status,
+    seasonDates: seasonal ? `${formatSeasons(rule.seasons!)}, every year` : undefined,
+    pickupDays: seasonal
+      ? `${DAY[rule.baseDay]} (base) + ${DAY[rule.secondaryDay!]} (seasonal)`
+      : `${DAY[rule.baseDay]} (base only)`,
+  };
+}
+
 export function DemoGuide() {
   const [isOpen, setIsOpen] = useState(true);
   const cardRef = useRef<HTMLDivElement>(null);
+  // Season status depends on "now"; compute after mount so SSR and hydration agree.
+  const [now, setNow] = useState<number | null>(null);
+  useEffect(() => setNow(Math.floor(Date.now() / 1000)), []);
+  const areaRules = useAreaRules();
+  const demos = DEMO_ADDRESSES.map((addr) => ({
+    addr,
+    info: now == null || !areaRules ? null : describe(addr, now, areaRules),
+  }));
+  const firstWith = (status: SeasonalStatus) =>
+    demos.find((d) => d.info?.status === status)?.addr.city;
 
   useEffect(() => {
     if (!isOpen) return;
@@ -129,7 +138,7 @@ export function DemoGuide() {
             Test Addresses
           </h4>
           
-          {DEMO_ADDRESSES.map((addr, idx) => (
+          {demos.map(({ addr, info }, idx) => (
             <Card key={idx} className="border">
               <CardContent className="p-3 space-y-2">
                 <div className="flex items-start justify-between">
@@ -141,29 +150,34 @@ export function DemoGuide() {
                   </div>
                 </div>
                 
-                <div className="flex items-center gap-1 text-xs">
-                  <span
-                    className={`inline-block w-2 h-2 rounded-full ${
-                      addr.seasonalStatus === "In Season (Active)"
-                        ? "bg-green-500"
-                        : addr.seasonalStatus === "Out of Season"
-                        ? "bg-yellow-500"
-                        : "bg-gray-400"
-                    }`}
-                  />
-                  <span className="font-medium">{addr.seasonalStatus}</span>
-                </div>
+                {info && (
+                  <div className="flex items-center gap-1 text-xs">
+                    <span
+                      className={`inline-block w-2 h-2 rounded-full ${
+                        info.status === "In Season (Active)"
+                          ? "bg-green-500"
+                          : info.status === "Out of Season"
+                          ? "bg-yellow-500"
+                          : "bg-gray-400"
+                      }`}
+                    />
+                    <span className="font-medium">{info.status}</span>
+                  </div>
+                )}
                 
-                {addr.seasonDates && (
+                {info?.seasonDates && (
                   <div className="flex items-center gap-1 text-xs text-muted-foreground">
                     <Calendar className="h-3 w-3" />
-                    {addr.seasonDates}
+                    {info.seasonDates}
                   </div>
                 )}
                 
-                <div className="text-xs text-muted-foreground">
-                  {addr.pickupDays}
-                </div>
+                {info && (
+                  <div className="text-xs text-muted-foreground">
+                    {info.pickupDays}
+                    <UpcomingPickups rule={info.rule} days={14} limit={3} className="mt-1" />
+                  </div>
+                )}
               </CardContent>
             </Card>
           ))}
@@ -184,9 +198,15 @@ export function DemoGuide() {
             💡 Suggested Test Flow:
           </p>
           <ol className="text-green-800 text-xs space-y-1 list-decimal list-inside">
-            <li>Add Topsail Beach (in-season)</li>
-            <li>Add North Topsail Beach (out-of-season)</li>
-            <li>Add Wilmington (no seasonal)</li>
+            {firstWith("In Season (Active)") && (
+              <li>Add {firstWith("In Season (Active)")} (in-season)</li>
+            )}
+            {firstWith("Out of Season") && (
+              <li>Add {firstWith("Out of Season")} (out-of-season)</li>
+            )}
+            {firstWith("No Seasonal Service") && (
+              <li>Add {firstWith("No Seasonal Service")} (no seasonal)</li>
+            )}
             <li>Complete payment to see schedule</li>
           </ol>
         </div>
@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  formatPickupDate,
+  pickupDates,
+  type PickupRule,
+} from "@/lib/calendar/pickups";
+
+type UpcomingPickupsProps = {
+  rule: PickupRule;
+  days?: number; // how far ahead to look
+  limit?: number;
+  className?: string;
+};
+
+// Next few real pickup dates for a rule, with holiday moves spelled out.
+export function UpcomingPickups({ rule, days = 21, limit = 4, className }: UpcomingPickupsProps) {
+  // Dates depend on "now", so compute after mount to keep SSR and hydration in sync.
+  const [now, setNow] = useState<number | null>(null);
+  useEffect(() => setNow(Math.floor(Date.now() / 1000)), []);
+  if (now == null) return null;
+
+  const upcoming = pickupDates(rule, now, now + days * 86400).slice(0, limit);
+  if (!upcoming.length) return null;
+
+  return (
+    <div className={className}>
+      <div>Next pickups:</div>
+      <ul className="ml-3 list-disc">
+        {upcoming.map((p) => (
+          <li key={`${p.date}-${p.kind}`}>
+            {p.status === "skipped" ? (
+              <span className="line-through">{formatPickupDate(p.date)}</span>
+            ) : (
+              <span className="font-medium">{formatPickupDate(p.date)}</span>
+            )}
+            {p.kind === "seasonal" && " (2nd)"}
+            {p.status === "shifted" && (
+              <span className="text-muted-foreground">
+                {" "}
+                moved from {formatPickupDate(p.scheduledDate!)} for {p.holiday}
+              </span>
+            )}
+            {p.status === "skipped" && (
+              <span className="text-muted-foreground"> no pickup, {p.holiday}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
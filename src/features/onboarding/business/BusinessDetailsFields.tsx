@@ -0,0 +1,197 @@
+"use client";
+
+import { useFieldArray, type Control } from "react-hook-form";
+import { Plus, Trash2 } from "lucide-react";
+
+import {
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  COLLECTION_LABELS,
+  COLLECTION_METHODS,
+} from "@/features/payments/stripe/shared/billing";
+import type {
+  FormValues,
+  WizardContext,
+} from "@/features/onboarding/personal/personal.step-resolver";
+
+const COLLECTION_HINTS = {
+  charge_automatically: "Card on file, charged on the 1st of each month",
+  send_invoice: "Invoices are emailed to the billing contact; pay by card or bank transfer",
+} as const;
+
+/** Step-0 fields for business signups: company details, invoicing terms, team. */
+export function BusinessDetailsFields({
+  control,
+}: {
+  control: Control<FormValues, WizardContext>;
+}) {
+  const {
+    fields: teamFields,
+    append: appendMember,
+    remove: removeMember,
+  } = useFieldArray({ control, name: "team" });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex text-xl font-semibold">Company</div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <FormField
+          control={control}
+          name="business.companyName"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Company name</FormLabel>
+              <FormControl>
+                <Input {...field} value={field.value ?? ""} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name="business.taxId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Tax ID (EIN, optional)</FormLabel>
+              <FormControl>
+                <Input placeholder="12-3456789" {...field} value={field.value ?? ""} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name="business.poNumber"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>PO number (optional)</FormLabel>
+              <FormControl>
+                <Input maxLength={30} {...field} value={field.value ?? ""} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <FormField
+        control={control}
+        name="business.collectionMethod"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Payment terms</FormLabel>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {COLLECTION_METHODS.map((value) => (
+                <label
+                  key={value}
+                  className={`flex cursor-pointer gap-2 rounded-lg border p-3 text-sm ${
+                    (field.value ?? "charge_automatically") === value
+                      ? "border-[#254B58] bg-[#254B58]/5"
+                      : ""
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name={field.name}
+                    value={value}
+                    checked={(field.value ?? "charge_automatically") === value}
+                    onChange={() => field.onChange(value)}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="block font-medium">{COLLECTION_LABELS[value]}</span>
+                    <span className="block text-xs text-muted-foreground">
+                      {COLLECTION_HINTS[value]}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="font-medium">Team members</div>
+          <div className="text-xs text-muted-foreground">
+            Colleagues who get a copy of each emailed invoice (net 30 terms)
+          </div>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={teamFields.length >= 10}
+          onClick={() => appendMember({ name: "", email: "", role: "" })}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add member
+        </Button>
+      </div>
+      {teamFields.map((member, idx) => (
+        <div key={member.id} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-4">
+          <FormField
+            control={control}
+            name={`team.${idx}.name` as const}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`team.${idx}.email` as const}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email</FormLabel>
+                <FormControl>
+                  <Input type="email" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`team.${idx}.role` as const}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Role (optional)</FormLabel>
+                <FormControl>
+                  <Input placeholder="Accounts payable" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="self-end"
+            aria-label={`Remove team member ${idx + 1}`}
+            onClick={() => removeMember(idx)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
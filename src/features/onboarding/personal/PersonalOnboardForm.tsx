@@ -4,6 +4,7 @@ import {
   useForm,
   useFieldArray,
   useWatch,
+  type FieldPath,
   type SubmitHandler,
 } from "react-hook-form";
 
@@ -12,7 +13,12 @@ import {
   type Address as SAAddress,
   // type Weekday,
 } from "@/lib/serviceAreas/serviceAreas";
+import { useAreaRules } from "@/lib/serviceAreas/useAreaRules";
+import { formatSeasons } from "@/lib/season/recurring";
+import { UpcomingPickups } from "@/components/schedule/UpcomingPickups";
 
+import { signupFieldPath } from "./personal.schema";
+import type { ErrorMap } from "@/lib/validation/zod-error";
 import {
   stepResolver,
   type FormValues,
@@ -40,8 +46,16 @@ import { Separator } from "@/components/ui/separator";
 import { Progress } from "@/components/ui/progress";
 import { Pencil, Trash2, Plus } from "lucide-react";
 import { useState, useEffect, useRef } from "react";
-import type { Plan } from "@/features/payments/stripe/shared/plan";
+import {
+  PLAN_DESCRIPTIONS,
+  PLAN_LABELS,
+  PLAN_VALUES,
+  type Plan,
+} from "@/features/payments/stripe/shared/plan";
+
 
+import type { AccountType } from "@/features/payments/stripe/server/prices";
+import { BusinessDetailsFields } from "@/features/onboarding/business/BusinessDetailsFields";
 
 //  Stripe payment step
 import { PaymentStep } from "@/features/payments/stripe/client/PaymentStep";
@@ -89,7 +103,11 @@ function toSAAddress(svc: {
   };
 }
 
-export function PersonalOnboardForm() {
+export function PersonalOnboardForm({
+  account = "individual",
+}: {
+  account?: AccountType; // "business" adds company details, team and invoice terms
+} = {}) {
   const [step, setStep] = useState<0 | 1 | 2 | 3>(0);
   // Track the auto-created service card (when "same as billing" is turned on)
   const [autoServiceId, setAutoServiceId] = useState<string | null>(null);
@@ -103,9 +121,12 @@ export function PersonalOnboardForm() {
   const [subscriptionId, setSubscriptionId] = useState<string | null>(null);
   const [customerId, setCustomerId] = useState<string | null>(null);
 
+  // Live service-area rules (null while loading); signup re-checks on the server
+  const areaRules = useAreaRules();
+
   const form = useForm<FormValues, WizardContext>({
     resolver: stepResolver,
-    context: { step },
+    context: { step, account },
     mode: "onSubmit",
     reValidateMode: "onChange",
     shouldUnregister: false,
@@ -125,6 +146,14 @@ export function PersonalOnboardForm() {
         serviceSameAsBilling: false,
         services: [],
       },
+      ...(account === "business" && {
+        business: {
+          companyName: "",
+          taxId: "",
+          poNumber: "",
+          collectionMethod: "charge_automatically",
+        },
+      }),
       team: [],
       agreeToTerms: false,
     },
@@ -150,6 +179,10 @@ export function PersonalOnboardForm() {
     form.setValue("contact.lastName", "User");
     form.setValue("contact.email", email);
     form.setValue("contact.phone", "555-555-0100");
+    if (account === "business") {
+      form.setValue("business.companyName", "Demo Rentals LLC");
+      form.setValue("business.poNumber", "PO-1001");
+    }
     
     // Fill billing address
     form.setValue("addresses.billing.line1", "123 Demo Street");
@@ -194,6 +227,8 @@ export function PersonalOnboardForm() {
 
   // Watch fields needed by PaymentStep
   const email = useWatch({ control, name: "contact.email" });
+  const business = useWatch({ control, name: "business" });
+  const team = useWatch({ control, name: "team" });
   const selectedPlan = useWatch({ control, name: "plan" }) as Plan | undefined;
   const agreed = useWatch({ control, name: "agreeToTerms" }) as
     | boolean
@@ -293,6 +328,24 @@ export function PersonalOnboardForm() {
 
   const back = () => setStep((s) => (s > 0 ? ((s - 1) as Step) : s));
 
+  // Server-side validation of the signup request: put each error on its field,
+  // then return to the earliest step that has one (opening the failing service card).
+  const applyServerErrors = (errors: ErrorMap) => {
+    let firstStep: Step | null = null;
+    let firstService: number | null = null;
+    for (const [path, messages] of Object.entries(errors)) {
+      const field = signupFieldPath(path);
+      if (!field) continue;
+      form.setError(field as FieldPath<FormValues>, { type: "server", message: messages[0] });
+      const service = /^addresses\.services\.(\d+)/.exec(field);
+      if (service && firstService === null) firstService = Number(service[1]);
+      const at: Step = service ? 1 : field === "plan" ? 2 : 0;
+      if (firstStep === null || at < firstStep) firstStep = at;
+    }
+    if (firstService !== null) setEditingService(firstService);
+    if (firstStep !== null) setStep(firstStep);
+  };
+
   const onSubmit: SubmitHandler<FormValues> = () => {
     // No-op: finalization happens via Stripe PaymentStep success + webhook.
   };
@@ -349,8 +402,25 @@ export function PersonalOnboardForm() {
               </div>
             </div>
             
+            {account === "business" ? (
+              <>
+                <BusinessDetailsFields control={control} />
+                <Separator />
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Signing up a company?{" "}
+                <a className="underline" href="/business">
+                  Use business signup
+                </a>{" "}
+                for invoicing, PO numbers and team members.
+              </p>
+            )}
+
             {/* Contact */}
-            <div className="flex text-xl font-semibold">Member Information</div>
+            <div className="flex text-xl font-semibold">
+              {account === "business" ? "Billing Contact" : "Member Information"}
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <FormField
                 control={control}
@@ -701,8 +771,16 @@ export function PersonalOnboardForm() {
                                 `${prefix}.postalCode` as const
                               ),
                             };
+                            if (!areaRules) {
+                              return (
+                                <div className="text-xs text-muted-foreground mt-2">
+                                  Checking service area…
+                                </div>
+                              );
+                            }
                             const rule = resolveRuleForAddress(
-                              toSAAddress(svc)
+                              toSAAddress(svc),
+                              areaRules
                             );
 
                             if (!rule) {
@@ -728,21 +806,17 @@ export function PersonalOnboardForm() {
                                     <span className="font-medium">
                                       {DOW[rule.secondaryDay]}
                                     </span>
-                                    {rule.season && (
+                                    {!!rule.seasons?.length && (
                                       <span className="ml-1 text-muted-foreground">
-                                        (
-                                        {new Date(
-                                          rule.season.startUTC * 1000
-                                        ).toLocaleDateString()}
-                                        {" – "}
-                                        {new Date(
-                                          rule.season.endUTC * 1000
-                                        ).toLocaleDateString()}
-                                        )
+                                        ({formatSeasons(rule.seasons)} yearly)
                                       </span>
                                     )}
                                   </div>
                                 )}
+                                <UpcomingPickups rule={rule} className="mt-1" />
+                                <div className="text-muted-foreground">
+                                  Matched by {rule.matchedBy.summary}
+                                </div>
                               </div>
                             );
                           })()}
@@ -771,6 +845,42 @@ export function PersonalOnboardForm() {
         {/* ===== STEP 3: Payment ===== */}
         {step === 2 && (
           <div className="space-y-6">
+            {/* Plan: sets the seasonal defaults, or in-season-only billing */}
+            <FormField
+              control={control}
+              name="plan"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Plan</FormLabel>
+                  <div className="grid gap-2 sm:grid-cols-3">
+                    {PLAN_VALUES.map((value) => (
+                      <label
+                        key={value}
+                        className={`flex cursor-pointer gap-2 rounded-lg border p-3 text-sm ${
+                          field.value === value ? "border-[#254B58] bg-[#254B58]/5" : ""
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name={field.name}
+                          value={value}
+                          checked={field.value === value}
+                          onChange={() => field.onChange(value)}
+                          className="mt-1"
+                        />
+                        <span>
+                          <span className="block font-medium">{PLAN_LABELS[value]}</span>
+                          <span className="block text-xs text-muted-foreground">
+                            {PLAN_DESCRIPTIONS[value]}
+                          </span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             {/* Stripe Payment (passes per-address multiplier) */}
             <PaymentStep
               email={email || undefined}
@@ -783,7 +893,10 @@ export function PersonalOnboardForm() {
                 setCustomerId(custId || null);
                 setStep(3 as Step);
               }}
-              account="individual"
+              account={account}
+              business={account === "business" ? business : undefined}
+              team={account === "business" ? team : undefined}
+              onFieldErrors={applyServerErrors}
             />
             <Separator />
             {/* Terms */}
@@ -860,8 +973,11 @@ export function PersonalOnboardForm() {
                               form.getValues("addresses.services") ?? [];
                             const failures: number[] = [];
                             svcs.forEach((svc, idx) => {
+                              // Rules not loaded yet: leave it to the server
+                              if (!areaRules) return;
                               const rule = resolveRuleForAddress(
-                                toSAAddress(svc)
+                                toSAAddress(svc),
+                                areaRules
                               );
                               if (!rule) failures.push(idx);
                             });
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { PLAN_VALUES } from "@/features/payments/stripe/shared/plan";
+import { COLLECTION_METHODS } from "@/features/payments/stripe/shared/billing";
 
 export const trimmed = z.string().trim();
 
@@ -52,6 +53,21 @@ export const TeamMemberSchema = z.object({
   role: trimmed.optional(),
 });
 
+// US employer identification number, as printed: 12-3456789
+const ein = z
+  .string()
+  .trim()
+  .regex(/^\d{2}-?\d{7}$/, "Use a 9-digit EIN (12-3456789)")
+  .transform((s) => `${s.replace("-", "").slice(0, 2)}-${s.replace("-", "").slice(2)}`);
+
+// Company details for business signups; PO numbers print on every invoice.
+export const BusinessSchema = z.object({
+  companyName: trimmed.min(1, "Company name is required"),
+  taxId: z.union([z.literal(""), ein]).optional(),
+  poNumber: trimmed.max(30, "PO number must be 30 characters or fewer").optional(),
+  collectionMethod: z.enum(COLLECTION_METHODS).default("charge_automatically"),
+});
+
 // Helper: compare addresses (basic equality by normalized fields)
 const sameAddress = (a?: z.infer<typeof AddressSchema>, b?: z.infer<typeof AddressSchema>) => {
   if (!a || !b) return false;
@@ -85,7 +101,7 @@ export const OnboardingSchema = z
       .superRefine((val, ctx) => {
         if (!val.serviceSameAsBilling && val.services.length === 0) {
           ctx.addIssue({
-            code: z.ZodIssueCode.custom,
+            code: "custom",
             message:
               "Add at least one service address or check 'service address is the same as billing'.",
             path: ["services"],
@@ -95,6 +111,8 @@ export const OnboardingSchema = z
 
     plan: z.enum(PLAN_VALUES),
 
+    business: BusinessSchema.optional(),
+
     team: z.array(TeamMemberSchema).default([]),
 
     agreeToTerms: z.boolean().refine(Boolean, {
@@ -136,3 +154,60 @@ export const OnboardingSchema = z
 
 export type OnboardingInput = z.input<typeof OnboardingSchema>;
 export type OnboardingOutput = z.output<typeof OnboardingSchema>;
+
+// ——— create-subscription request body (what PaymentStep posts) ———
+
+export const SignupRequestShape = z.object({
+  email,
+  plan: z.enum(PLAN_VALUES).default("trash"),
+  services: z.array(AddressSchema).min(1, "At least one service address is required"),
+  billing: AddressSchema.optional(),
+  selections: z.array(z.object({ seasonal_2nd: z.boolean().default(false) })),
+  business: BusinessSchema.optional(),
+  team: z.array(TeamMemberSchema).max(10, "Add at most 10 team members").default([]),
+});
+
+// One selection row per service address, in the same order
+export const selectionsMatchServices = (
+  val: { services: unknown[]; selections: unknown[] },
+  ctx: z.RefinementCtx
+) => {
+  if (val.services.length !== val.selections.length) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["selections"],
+      message: "Selections must match service addresses",
+    });
+  }
+};
+
+export const SignupRequestSchema = SignupRequestShape.superRefine(selectionsMatchServices);
+
+// Business signups must carry company details (a missing object reports its fields)
+export const BusinessSignupRequestSchema = SignupRequestShape.extend({
+  business: z.preprocess((v) => v ?? { companyName: "" }, BusinessSchema),
+}).superRefine(selectionsMatchServices);
+
+export type SignupRequest = z.output<typeof SignupRequestSchema>;
+
+/**
+ * The wizard field a request error path belongs to, e.g. "services.0.city" ->
+ * "addresses.services.0.city". Paths with no field of their own ("selections")
+ * map to null.
+ */
+export function signupFieldPath(path: string): string | null {
+  const [head] = path.split(".");
+  switch (head) {
+    case "email":
+      return "contact.email";
+    case "services":
+    case "billing":
+      return `addresses.${path}`;
+    case "plan":
+    case "business":
+    case "team":
+      return path;
+    default:
+      return null;
+  }
+}
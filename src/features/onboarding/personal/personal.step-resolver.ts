@@ -5,17 +5,19 @@ import type { Resolver } from "react-hook-form";
 import {
   OnboardingSchema,  
   AddressSchema,
-  // TeamMemberSchema,    
+  BusinessSchema,
+  TeamMemberSchema,
   email,
   phone,
   trimmed,
 } from "./personal.schema";
 import { PLAN_VALUES } from "@/features/payments/stripe/shared/plan";
+import type { AccountType } from "@/features/payments/stripe/server/prices";
 
 /** Types shared with the form */
 export type FormValues = z.input<typeof OnboardingSchema>;
 export type Step = 0 | 1 | 2 | 3;             // 3 = success (no validation)
-export type WizardContext = { step: Step };
+export type WizardContext = { step: Step; account?: AccountType };
 
 /** Reusable shape for step-level address validation */
 const AddressesStepShape = z.object({
@@ -34,6 +36,12 @@ export const Step0Schema = z.object({
   addresses: AddressesStepShape,
 });
 
+/** Business signups also collect company details and the team on step 0 */
+export const Step0BusinessSchema = Step0Schema.extend({
+  business: BusinessSchema,
+  team: z.array(TeamMemberSchema).max(10, "Add at most 10 team members").default([]),
+});
+
 export const Step1Schema = z
   .object({
     addresses: AddressesStepShape,
@@ -63,7 +71,7 @@ const makeStep2Schema = (all: FormValues) =>
 
     if (!hasService) {
       ctx.addIssue({
-        code: z.ZodIssueCode.custom,
+        code: "custom",
         path: ["agreeToTerms"], // anchor the error somewhere visible on step 2
         message: "Add at least one service address before paying.",
       });
@@ -75,7 +83,7 @@ export const stepSchemas = [Step0Schema, Step1Schema] as const;
 
 /**
  * Step-aware resolver:
- * - Steps 0–1: validate only those parts.
+ * - Steps 0–1: validate only those parts (plus company and team for business accounts).
  * - Step 2: validate plan/terms + cross-step “has service address” guard.
  * - Step 3 (success): skip validation entirely.
  * Returns original values so other fields aren't stripped.
@@ -93,7 +101,9 @@ export const stepResolver: Resolver<FormValues, WizardContext> = async (
   // Build the appropriate schema per step
   const schema =
     step === 0
-      ? stepSchemas[0]
+      ? ctx?.account === "business"
+        ? Step0BusinessSchema
+        : stepSchemas[0]
       : step === 1
       ? stepSchemas[1]
       : makeStep2Schema(values); // step === 2
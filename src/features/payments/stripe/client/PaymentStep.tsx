@@ -10,6 +10,8 @@ import {
 import { stripePromise } from "./elements";
 import { Button } from "@/components/ui/button";
 import type { Plan } from "@/features/payments/stripe/shared/plan";
+import type { BusinessDetails, TeamMember } from "@/features/payments/stripe/shared/billing";
+import type { ErrorMap } from "@/lib/validation/zod-error";
 import { DataTable } from "@/features/payments/ui-invoice/invoice-ui";
 import {
   createColumns,
@@ -18,6 +20,7 @@ import {
 } from "@/features/payments/ui-invoice/columns";
 import type { AccountType } from "@/features/payments/stripe/server/prices";
 import { resolveRuleForAddress } from "@/lib/serviceAreas/serviceAreas";
+import { useAreaRules } from "@/lib/serviceAreas/useAreaRules";
 
 type ServiceAddr = {
   line1?: string;
@@ -78,6 +81,9 @@ export function PaymentStep({
   canPay,
   onSuccess,
   account = "individual",
+  business,
+  team,
+  onFieldErrors,
 }: {
   email?: string;
   plan?: Plan;
@@ -86,13 +92,21 @@ export function PaymentStep({
   canPay: boolean;
   onSuccess: (subscriptionId?: string, customerId?: string) => void;
   account?: AccountType;
+  business?: Partial<BusinessDetails>; // business signups only
+  team?: Partial<TeamMember>[];
+  onFieldErrors?: (errors: ErrorMap) => void; // server-side validation, keyed by request path
 }) {
   const [clientSecret, setClientSecret] = useState<string | null>(null);
+  // "setup" when nothing is due yet (seasonal-only, out of season): the card is only saved
+  const [intent, setIntent] = useState<"payment" | "setup">("payment");
   const [subscriptionId, setSubscriptionId] = useState<string | null>(null);
   const [customerId, setCustomerId] = useState<string | null>(null);
   const [fetchError, setFetchError] = useState<string | null>(null);
   const [starting, setStarting] = useState(false);
   const latestReq = useRef(0);
+  // One Idempotency-Key per checkout attempt: retrying the same cart reuses it,
+  // so the server replays the first result instead of subscribing twice.
+  const attempt = useRef<{ key: string; body: string } | null>(null);
   const slot = useWizardNextSlot();
   const [confirmAPI, setConfirmAPI] = useState<{
     confirm: () => void;
@@ -186,6 +200,11 @@ export function PaymentStep({
     return [s.line1, cityState, s.postalCode].filter(Boolean).join(" • ");
   };
 
+  const seasonalOnly = plan === "seasonal_only";
+  // Invoiced businesses subscribe without a card; the first invoice is emailed.
+  const invoiced = account === "business" && business?.collectionMethod === "send_invoice";
+
+  const areaRules = useAreaRules();
   const rowAmount = useCallback((r: RowSel) =>
     (unit?.trash ?? 0) + (r.seasonal_2nd ? unit?.seasonal_2nd ?? 0 : 0), [unit]);
   const totalCents = useMemo(() => rows.reduce((sum, r) => sum + rowAmount(r), 0), [rows, rowAmount]);
@@ -195,23 +214,38 @@ export function PaymentStep({
       const r = rows[idx] ?? defaultRow;
       
       // Check if this address has seasonal service
-      const rule = resolveRuleForAddress({
-        line1: s.line1 ?? "",
-        city: s.city ?? "",
-        state: s.state ?? "",
-        zip: s.postalCode ?? "",
-      });
-      const hasSeasonalService = !!rule?.season;
+      const rule = areaRules
+        ? resolveRuleForAddress(
+            {
+              line1: s.line1 ?? "",
+              city: s.city ?? "",
+              state: s.state ?? "",
+              zip: s.postalCode ?? "",
+            },
+            areaRules
+          )
+        : null;
+      const hasSeasonalService = !!rule?.seasons?.length;
       
       return {
         idx,
         serviceAddress: labelFor(s) || "Service Address",
         seasonal_2nd: r.seasonal_2nd, // drives the Seasonal checkbox
-        monthly: unit ? money(rowAmount(r), unit.currency) : "—",
+        monthly:
+          seasonalOnly && rule && !hasSeasonalService
+            ? "No season here"
+            : unit
+            ? money(rowAmount(r), unit.currency)
+            : "—",
         hasSeasonalService,
       };
     });
-  }, [services, rows, defaultRow, unit, rowAmount]);
+  }, [services, rows, defaultRow, unit, rowAmount, seasonalOnly, areaRules]);
+
+  // A seasonal-only plan can't serve an address whose area has no season.
+  const seasonlessCount = seasonalOnly && areaRules
+    ? tableData.filter((row) => !row.hasSeasonalService).length
+    : 0;
 
   const columns = useMemo(() => createColumns(), []);
 
@@ -230,39 +264,59 @@ export function PaymentStep({
   );
   // ---------- Phase 1: Configure ----------
   const canStartPayment =
-    !!email && !!plan && services.length > 0 && canPay && !starting;
+    !!email && !!plan && services.length > 0 && canPay && !starting && !seasonlessCount;
 
   const startPayment = async () => {
     if (!canStartPayment) return;
     setStarting(true);
     setFetchError(null);
     const reqId = ++latestReq.current;
+    const body = JSON.stringify({
+      email,
+      plan,
+      services,
+      billing,
+      account,
+      ...(account === "business" && { business, team: team ?? [] }),
+      selections: rows.map((r) => ({ seasonal_2nd: r.seasonal_2nd })),
+    });
+    if (attempt.current?.body !== body) {
+      attempt.current = { key: crypto.randomUUID(), body };
+    }
     try {
       const res = await fetch(routeFor(account), {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          email,
-          plan,
-          services,
-          billing,
-          account,
-          selections: rows.map((r) => ({ seasonal_2nd: r.seasonal_2nd })),
-        }),
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": attempt.current.key,
+        },
+        body,
       });
 
       // Guard before json()
       if (!res.ok) {
         const text = await res.text().catch(() => "");
+        let payload: { error?: string; fieldErrors?: ErrorMap } = {};
+        try {
+          payload = JSON.parse(text);
+        } catch {}
+        if (payload.fieldErrors && latestReq.current === reqId) {
+          onFieldErrors?.(payload.fieldErrors);
+        }
         throw new Error(
-          text || `Failed to create subscription (${res.status})`
+          payload.error || text || `Failed to create subscription (${res.status})`
         );
       }
 
       const json = await res.json();
       if (latestReq.current !== reqId) return; // ignore stale
+      if (json.noInitialCharge || json.invoiced) {
+        onSuccess(json.subscriptionId || undefined, json.customerId || undefined);
+        return;
+      }
       setSubscriptionId(json.subscriptionId || null);
       setCustomerId(json.customerId || null);
+      setIntent(json.intent === "setup" ? "setup" : "payment");
       setClientSecret(json.clientSecret); // -> Phase 2
     } catch (e) {
       if (latestReq.current !== reqId) return;
@@ -320,6 +374,8 @@ export function PaymentStep({
             <div className="text-xs text-muted-foreground">
               Total monthly price displayed reflects in-season dates for all
               addresses.
+              {seasonalOnly &&
+                " In-season-only plans are billed only while each address is in season; nothing is charged the rest of the year."}
             </div>
           ) : (
             <Button type="button" variant="outline" onClick={resetToConfigure}>
@@ -335,6 +391,13 @@ export function PaymentStep({
       {/* Phase switch */}
       {!clientSecret ? (
         <>
+          {seasonlessCount > 0 && (
+            <p className="text-sm text-red-600">
+              {seasonlessCount === 1 ? "One address has" : `${seasonlessCount} addresses have`} no
+              service season; choose a year-round plan or remove{" "}
+              {seasonlessCount === 1 ? "it" : "them"}.
+            </p>
+          )}
           {fetchError && <p className="text-sm text-red-600">{fetchError}</p>}
           {slot ? (
             createPortal(
@@ -344,7 +407,7 @@ export function PaymentStep({
                 disabled={!canStartPayment}
                 className="bg-[#254B58] text-[#FCCF86]"
               >
-                {starting ? "Preparing…" : "Continue to payment"}
+                {starting ? "Preparing…" : invoiced ? "Subscribe & send invoice" : "Continue to payment"}
               </Button>,
               slot
             )
@@ -356,7 +419,7 @@ export function PaymentStep({
                 disabled={!canStartPayment}
                 className="bg-[#254B58] text-[#FCCF86]"
               >
-                {starting ? "Preparing…" : "Continue to payment"}
+                {starting ? "Preparing…" : invoiced ? "Subscribe & send invoice" : "Continue to payment"}
               </Button>
             </div>
           )}
@@ -389,6 +452,7 @@ export function PaymentStep({
 
           <Elements stripe={stripePromise} options={options} key={clientSecret}>
           <PaymentForm
+            intent={intent}
             canPay={canPay}
             onSuccess={onSuccess}
             subscriptionId={subscriptionId}
@@ -418,7 +482,7 @@ export function PaymentStep({
             disabled={!confirmAPI.canConfirm || confirmAPI.busy}
             className="bg-[#254B58] text-[#FCCF86]"
           >
-            {confirmAPI.busy ? "Processing…" : "Pay & Subscribe"}
+            {confirmAPI.busy ? "Processing…" : payLabel(intent)}
           </Button>,
           slot
         )}
@@ -426,7 +490,11 @@ export function PaymentStep({
   );
 }
 
+const payLabel = (intent: "payment" | "setup") =>
+  intent === "setup" ? "Save card & Subscribe" : "Pay & Subscribe";
+
 function PaymentForm({
+  intent,
   canPay,
   onSuccess,
   hideButton,
@@ -434,6 +502,7 @@ function PaymentForm({
   subscriptionId,
   customerId,
 }: {
+  intent: "payment" | "setup";
   canPay: boolean;
   onSuccess: (subscriptionId?: string, customerId?: string) => void;
   hideButton?: boolean;
@@ -454,17 +523,17 @@ function PaymentForm({
     if (!stripe || !elements) return;
     setBusy(true);
     setErr(null);
-    const { error } = await stripe.confirmPayment({
-      elements,
-      redirect: "if_required",
-    });
+    const { error } =
+      intent === "setup"
+        ? await stripe.confirmSetup({ elements, redirect: "if_required" })
+        : await stripe.confirmPayment({ elements, redirect: "if_required" });
     setBusy(false);
     if (error) {
       setErr(error.message ?? "Payment failed");
       return;
     }
     onSuccess(subscriptionId || undefined, customerId || undefined);
-  }, [stripe, elements, onSuccess, subscriptionId, customerId]);
+  }, [stripe, elements, onSuccess, subscriptionId, customerId, intent]);
 
   // let the parent (PaymentStep) render the button elsewhere
   const canConfirm = Boolean(canPay && stripe && elements && !busy);
@@ -499,7 +568,7 @@ function PaymentForm({
             disabled={!canPay || !stripe || !elements || busy}
             className="bg-[#254B58] text-[#FCCF86]"
           >
-            {busy ? "Processing…" : "Pay & Subscribe"}
+            {busy ? "Processing…" : payLabel(intent)}
           </Button>
         </div>
       )}
@@ -1,9 +1,15 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useState, type ChangeEvent } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { Calendar, DollarSign, MapPin, CheckCircle2, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PLAN_LABELS, type Plan } from "@/features/payments/stripe/shared/plan";
+import { COLLECTION_LABELS, type CollectionMethod } from "@/features/payments/stripe/shared/billing";
+import { Calendar, DollarSign, MapPin, CheckCircle2, Clock, TrendingUp, Plus, PauseCircle } from "lucide-react";
 
 type PhaseItem = {
   price: string | undefined;
@@ -43,7 +49,43 @@ type ScheduleSummary = {
   last_phase_open_ended: boolean;
 };
 
-type PriceMetadata = Record<string, { name: string; type: 'base' | 'seasonal'; amount: number }>;
+type PriceMetadata = Record<
+  string,
+  { name: string; type: 'base' | 'seasonal'; amount: number; property?: number }
+>;
+
+type ForecastLine = {
+  price: string;
+  quantity: number;
+  amount: number;
+  kind: "recurring" | "proration";
+  period: { start: string | null; end: string | null };
+};
+
+type ForecastInvoice = {
+  date: string | null;
+  period: { start: string | null; end: string | null };
+  total: number;
+  lines: ForecastLine[];
+};
+
+type Forecast = {
+  currency: string;
+  invoices: ForecastInvoice[];
+};
+
+type Hold = {
+  start: string; // "YYYY-MM-DD", first day away
+  end: string; // "YYYY-MM-DD", last day away
+};
+
+type Property = {
+  index: number;
+  address: string;
+  seasonal: boolean;
+  seasonalOnly?: boolean;
+  holds?: Hold[];
+};
 
 type SubscriptionOverview = {
   subscriptionId: string;
@@ -51,6 +93,11 @@ type SubscriptionOverview = {
   nextInvoice: NextInvoice | null;
   schedule: ScheduleSummary | null;
   priceMetadata?: PriceMetadata;
+  forecast?: Forecast;
+  plan?: Plan;
+  billing?: { collectionMethod: CollectionMethod; daysUntilDue: number | null };
+  properties?: Property[];
+  calendar?: { downloadUrl: string; feedUrl: string } | null;
 };
 
 const money = (cents: number, currency = "USD") => {
@@ -66,6 +113,15 @@ const formatDate = (iso: string | null) => {
   });
 };
 
+const formatMonth = (iso: string | null) => {
+  if (!iso) return "—";
+  return new Date(iso).toLocaleDateString("en-US", { month: "short", year: "2-digit" });
+};
+
+// "YYYY-MM-DD" in the browser's timezone
+const localDate = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+
 const formatDateTime = (iso: string | null) => {
   if (!iso) return "—";
   return new Date(iso).toLocaleDateString("en-US", {
@@ -177,7 +233,7 @@ export function SubscriptionResults({
     );
   }
 
-  const { nextInvoice, schedule, priceMetadata = {} } = data;
+  const { nextInvoice, schedule, forecast, priceMetadata = {} } = data;
   const currency = nextInvoice?.currency || "USD";
 
   // Create lookup with colors based on server-provided metadata
@@ -313,21 +369,31 @@ export function SubscriptionResults({
                 const isOpenEnded = isLast && schedule.last_phase_open_ended;
                 
                 // Identify base and seasonal items using price metadata
-                const baseItem = phase.items.find((item) => 
+                // (one item per property in per-property mode, one per plan price otherwise)
+                const baseItems = phase.items.filter((item) =>
                   item.price && priceMetadata[item.price]?.type === 'base'
                 );
-                const seasonalItem = phase.items.find((item) => 
+                const seasonalItems = phase.items.filter((item) =>
                   item.price && priceMetadata[item.price]?.type === 'seasonal'
                 );
+                const count = (items: PhaseItem[]) =>
+                  items.reduce((sum, item) => sum + item.quantity, 0);
+                const baseCount = count(baseItems);
+                const seasonalCount = count(seasonalItems);
+
+                // Properties with a vacation hold during this phase
+                const phaseStart = phase.start ? localDate(new Date(phase.start)) : "";
+                const phaseEnd = phase.end && !isOpenEnded ? localDate(new Date(phase.end)) : "9999-12-31";
+                const held = (data.properties ?? []).filter((p) =>
+                  p.holds?.some((h) => h.start < phaseEnd && h.end >= phaseStart)
+                );
 
                 // Calculate total monthly cost
-                let totalMonthlyCost = 0;
-                if (baseItem?.price && priceMetadata[baseItem.price]) {
-                  totalMonthlyCost += (priceMetadata[baseItem.price].amount * baseItem.quantity);
-                }
-                if (seasonalItem?.price && priceMetadata[seasonalItem.price]) {
-                  totalMonthlyCost += (priceMetadata[seasonalItem.price].amount * seasonalItem.quantity);
-                }
+                const totalMonthlyCost = phase.items.reduce(
+                  (sum, item) =>
+                    sum + (item.price ? (priceMetadata[item.price]?.amount ?? 0) * item.quantity : 0),
+                  0
+                );
 
                 return (
                   <div
@@ -360,27 +426,46 @@ export function SubscriptionResults({
                     </div>
 
                     <div className="space-y-1 text-sm">
-                      {baseItem && (
+                      {baseCount > 0 && (
                         <div className="flex items-center justify-between">
                           <span className="text-blue-600">Base Service</span>
                           <span className="font-medium">
-                            {baseItem.quantity} {baseItem.quantity === 1 ? "property" : "properties"}
+                            {baseCount} {baseCount === 1 ? "property" : "properties"}
                           </span>
                         </div>
                       )}
-                      {seasonalItem && (
+                      {seasonalCount > 0 && (
                         <div className="flex items-center justify-between">
                           <span className="text-green-600">Seasonal Add-on</span>
                           <span className="font-medium">
-                            {seasonalItem.quantity} {seasonalItem.quantity === 1 ? "property" : "properties"}
+                            {seasonalCount} {seasonalCount === 1 ? "property" : "properties"}
                           </span>
                         </div>
                       )}
-                      {!seasonalItem && (
+                      {seasonalItems.some((item) => item.price && priceMetadata[item.price]?.property != null) && (
+                        <div className="text-xs text-muted-foreground">
+                          {seasonalItems
+                            .map((item) => priceMetadata[item.price!]?.name)
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </div>
+                      )}
+                      {baseCount === 0 && (
+                        <div className="text-xs text-muted-foreground italic">
+                          Off season: no service or charge in this period
+                        </div>
+                      )}
+                      {seasonalCount === 0 && baseCount > 0 && (
                         <div className="text-xs text-muted-foreground italic">
                           No seasonal service in this period
                         </div>
                       )}
+                      {held.length > 0 && (
+                        <div className="flex items-center gap-1 text-xs text-amber-700">
+                          <PauseCircle className="h-3 w-3" />
+                          Vacation hold: {held.map((p) => p.address).join(" · ")}
+                        </div>
+                      )}
                     </div>
                   </div>
                 );
@@ -394,7 +479,9 @@ export function SubscriptionResults({
                   Flexible Schedule
                 </div>
                 <div className="text-amber-700 text-xs">
-                  Your subscription will continue with base service. Seasonal add-ons will activate automatically when properties enter their seasonal windows.
+                  {data.plan === "seasonal_only"
+                    ? "Service pauses out of season with nothing to pay, and resumes automatically when your properties' next season starts."
+                    : "Your subscription will continue with base service. Seasonal add-ons will activate automatically when properties enter their seasonal windows."}
                 </div>
               </div>
             )}
@@ -425,6 +512,30 @@ export function SubscriptionResults({
         </Card>
       )}
 
+      {/* 12-month forecast */}
+      {forecast && forecast.invoices.length > 0 && (
+        <ForecastCard forecast={forecast} priceMetadata={priceMetadata} />
+      )}
+
+      {/* Amendments */}
+      {schedule && data.properties && data.properties.length > 0 && (
+        <PropertiesCard
+          subscriptionId={data.subscriptionId}
+          properties={data.properties}
+          onChanged={fetchData}
+        />
+      )}
+      {schedule && data.properties && data.properties.length > 0 && (
+        <HoldsCard
+          subscriptionId={data.subscriptionId}
+          properties={data.properties}
+          onChanged={fetchData}
+        />
+      )}
+      {schedule && (
+        <AddPropertyCard subscriptionId={data.subscriptionId} onAdded={fetchData} />
+      )}
+
       {/* Subscription Details */}
       <Card>
         <CardHeader>
@@ -435,14 +546,681 @@ export function SubscriptionResults({
             <span className="text-muted-foreground">Subscription ID</span>
             <span className="font-mono text-xs">{data.subscriptionId}</span>
           </div>
+          {data.plan && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Plan</span>
+              <span>{PLAN_LABELS[data.plan] ?? data.plan}</span>
+            </div>
+          )}
+          {data.billing && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Payment</span>
+              <span>
+                {data.billing.collectionMethod === "send_invoice" && data.billing.daysUntilDue
+                  ? `Invoice, net ${data.billing.daysUntilDue}`
+                  : COLLECTION_LABELS[data.billing.collectionMethod]}
+              </span>
+            </div>
+          )}
           {schedule && (
             <div className="flex justify-between">
               <span className="text-muted-foreground">Schedule ID</span>
               <span className="font-mono text-xs">{schedule.id}</span>
             </div>
           )}
+          {data.calendar && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground flex items-center gap-1">
+                <Calendar className="h-3 w-3" />
+                Pickup calendar
+              </span>
+              <span className="flex gap-3 text-xs">
+                <a className="underline" href={data.calendar.downloadUrl}>
+                  Download .ics
+                </a>
+                <a
+                  className="underline"
+                  href={data.calendar.feedUrl.replace(/^https?:/, "webcal:")}
+                >
+                  Subscribe
+                </a>
+              </span>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
   );
 }
+
+
+function ForecastCard({
+  forecast,
+  priceMetadata,
+}: {
+  forecast: Forecast;
+  priceMetadata: PriceMetadata;
+}) {
+  const { currency, invoices } = forecast;
+
+  // Split each invoice into base / seasonal for the chart; prorations count toward their price.
+  const rows = invoices.map((inv) => {
+    let base = 0;
+    let seasonal = 0;
+    let prorations = 0;
+    for (const line of inv.lines) {
+      if (priceMetadata[line.price]?.type === "seasonal") seasonal += line.amount;
+      else base += line.amount;
+      if (line.kind === "proration") prorations += line.amount;
+    }
+    return { inv, base, seasonal, prorations };
+  });
+  const max = Math.max(1, ...rows.map((r) => r.inv.total));
+  const yearTotal = invoices.reduce((sum, inv) => sum + inv.total, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5" />
+          12-Month Forecast
+        </CardTitle>
+        <CardDescription>
+          Projected invoices from your schedule, including partial-month adjustments
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-1 h-40" role="img" aria-label="Projected monthly invoices">
+          {rows.map(({ inv, base, seasonal }) => (
+            <div
+              key={inv.date}
+              className="flex-1 flex flex-col justify-end h-full"
+              title={`${formatMonth(inv.date)}: ${money(inv.total, currency)}`}
+            >
+              <div
+                className="bg-green-500 rounded-t"
+                style={{ height: `${(Math.max(0, seasonal) / max) * 100}%` }}
+              />
+              <div
+                className="bg-blue-500"
+                style={{ height: `${(Math.max(0, base) / max) * 100}%` }}
+              />
+              <div className="text-[10px] text-center text-muted-foreground mt-1">
+                {formatMonth(inv.date)}
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <span className="h-2 w-2 rounded-sm bg-blue-500" /> Base service
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-2 w-2 rounded-sm bg-green-500" /> Seasonal add-on
+          </span>
+        </div>
+
+        <Separator />
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-muted-foreground">
+              <th className="font-medium py-1">Invoice date</th>
+              <th className="font-medium py-1 text-right">Base</th>
+              <th className="font-medium py-1 text-right">Seasonal</th>
+              <th className="font-medium py-1 text-right">Adjustments</th>
+              <th className="font-medium py-1 text-right">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ inv, base, seasonal, prorations }) => (
+              <tr key={inv.date} className="border-t">
+                <td className="py-1">{formatDate(inv.date)}</td>
+                <td className="py-1 text-right text-blue-600">{money(base, currency)}</td>
+                <td className="py-1 text-right text-green-600">{money(seasonal, currency)}</td>
+                <td className="py-1 text-right text-muted-foreground">
+                  {prorations ? money(prorations, currency) : "—"}
+                </td>
+                <td className="py-1 text-right font-medium">{money(inv.total, currency)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="border-t font-semibold">
+              <td className="py-1" colSpan={4}>12-month total</td>
+              <td className="py-1 text-right">{money(yearTotal, currency)}</td>
+            </tr>
+          </tfoot>
+        </table>
+        <p className="text-xs text-muted-foreground">
+          Base and seasonal columns include adjustments for service that starts or ends mid-month.
+          Taxes and discounts are not included.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+type PropertyQuote = {
+  confirmed: boolean;
+  effectiveAt: string | null;
+  currency: string;
+  monthly: { current: number; updated: number };
+  nextInvoice: { date: string | null; total: number } | null;
+  property: { city: string; zip: string; seasonal: boolean };
+};
+
+const EMPTY_PROPERTY = { line1: "", city: "", state: "NC", postalCode: "" };
+
+function AddPropertyCard({
+  subscriptionId,
+  onAdded,
+}: {
+  subscriptionId: string;
+  onAdded: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [address, setAddress] = useState(EMPTY_PROPERTY);
+  const [seasonal, setSeasonal] = useState(false);
+  const [quote, setQuote] = useState<PropertyQuote | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (confirm: boolean) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/stripe/subscription-properties", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ subscriptionId, service: address, seasonal_2nd: seasonal, confirm }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        // A rejected address names its first bad field, e.g. "Invalid ZIP code"
+        const [detail] = Object.values((json.fieldErrors ?? {}) as Record<string, string[]>).flat();
+        throw new Error(detail ?? json.error ?? "Unable to add property");
+      }
+      setQuote(json);
+      if (json.confirmed) {
+        setOpen(false);
+        setAddress(EMPTY_PROPERTY);
+        setSeasonal(false);
+        setQuote(null);
+        onAdded();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to add property");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Any edit invalidates the quote: it has to be reviewed again before confirming.
+  const edit = (field: keyof typeof EMPTY_PROPERTY) => (e: ChangeEvent<HTMLInputElement>) => {
+    setAddress((a) => ({ ...a, [field]: e.target.value }));
+    setQuote(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Plus className="h-5 w-5" />
+          Add a Property
+        </CardTitle>
+        <CardDescription>
+          Service starts tomorrow; this month is prorated on your next invoice
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!open ? (
+          <Button type="button" variant="outline" onClick={() => setOpen(true)}>
+            Add another address
+          </Button>
+        ) : (
+          <>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1 sm:col-span-2">
+                <Label htmlFor="add-line1">Street address</Label>
+                <Input id="add-line1" value={address.line1} onChange={edit("line1")} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="add-city">City</Label>
+                <Input id="add-city" value={address.city} onChange={edit("city")} />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="add-state">State</Label>
+                  <Input id="add-state" value={address.state} onChange={edit("state")} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="add-zip">ZIP</Label>
+                  <Input id="add-zip" value={address.postalCode} onChange={edit("postalCode")} />
+                </div>
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={seasonal}
+                onCheckedChange={(v) => {
+                  setSeasonal(v === true);
+                  setQuote(null);
+                }}
+              />
+              Seasonal 2nd pickup (where the area offers one)
+            </label>
+
+            {error && <div className="text-sm text-red-600">{error}</div>}
+
+            {quote && (
+              <div className="rounded-lg bg-blue-50 p-3 text-sm space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-blue-700">Monthly now</span>
+                  <span>{money(quote.monthly.current, quote.currency)}</span>
+                </div>
+                <div className="flex justify-between font-semibold text-blue-900">
+                  <span>New monthly from {formatDate(quote.effectiveAt)}</span>
+                  <span>{money(quote.monthly.updated, quote.currency)}</span>
+                </div>
+                {quote.nextInvoice && (
+                  <div className="flex justify-between text-xs text-blue-700">
+                    <span>Next invoice ({formatDate(quote.nextInvoice.date)}, incl. proration)</span>
+                    <span>{money(quote.nextInvoice.total, quote.currency)}</span>
+                  </div>
+                )}
+                {!quote.property.seasonal && seasonal && (
+                  <div className="text-xs text-muted-foreground">
+                    {quote.property.city} has no seasonal 2nd pickup
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" disabled={busy} onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              {quote ? (
+                <Button type="button" disabled={busy} onClick={() => submit(true)}>
+                  {busy ? "Adding…" : "Confirm and add"}
+                </Button>
+              ) : (
+                <Button
+                  type="button"
+                  disabled={busy || !address.line1 || !address.city || !address.postalCode}
+                  onClick={() => submit(false)}
+                >
+                  {busy ? "Checking…" : "Review price"}
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+type RemovalQuote = Omit<PropertyQuote, "property"> & {
+  property: { index: number; finalPickup: string | null };
+};
+
+// Local calendar date of tomorrow, "YYYY-MM-DD" (the earliest a removal can take effect).
+const tomorrowDate = () => {
+  const d = new Date();
+  d.setDate(d.getDate() + 1);
+  return localDate(d);
+};
+
+function PropertiesCard({
+  subscriptionId,
+  properties,
+  onChanged,
+}: {
+  subscriptionId: string;
+  properties: Property[];
+  onChanged: () => void;
+}) {
+  const [removing, setRemoving] = useState<number | null>(null);
+  const [effectiveDate, setEffectiveDate] = useState(tomorrowDate);
+  const [quote, setQuote] = useState<RemovalQuote | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const start = (index: number) => {
+    setRemoving(index);
+    setEffectiveDate(tomorrowDate());
+    setQuote(null);
+    setError(null);
+  };
+
+  const submit = async (confirm: boolean) => {
+    if (removing == null) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/stripe/subscription-properties/${removing}`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ subscriptionId, effectiveDate, confirm }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Unable to remove property");
+      setQuote(json);
+      if (json.confirmed) {
+        setRemoving(null);
+        setQuote(null);
+        onChanged();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to remove property");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MapPin className="h-5 w-5" />
+          Your Properties
+        </CardTitle>
+        <CardDescription>
+          Sold a property? Remove it and the rest of the month is credited
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {properties.map((p) => (
+          <div key={p.index} className="rounded-lg border p-3 space-y-3 text-sm">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <div className="font-medium">{p.address}</div>
+                <div className="text-xs text-muted-foreground">
+                  {p.seasonalOnly ? "In season only: " : ""}
+                  {p.seasonal ? "Weekly + seasonal 2nd pickup" : "Weekly pickup"}
+                </div>
+              </div>
+              {removing !== p.index && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={properties.length < 2}
+                  title={properties.length < 2 ? "Your only property can't be removed" : undefined}
+                  onClick={() => start(p.index)}
+                >
+                  Remove
+                </Button>
+              )}
+            </div>
+
+            {removing === p.index && (
+              <div className="space-y-3">
+                <div className="space-y-1">
+                  <Label htmlFor={`remove-date-${p.index}`}>Stop service from</Label>
+                  <Input
+                    id={`remove-date-${p.index}`}
+                    type="date"
+                    min={tomorrowDate()}
+                    value={effectiveDate}
+                    onChange={(e) => {
+                      setEffectiveDate(e.target.value);
+                      setQuote(null);
+                    }}
+                  />
+                </div>
+
+                {error && <div className="text-sm text-red-600">{error}</div>}
+
+                {quote && (
+                  <div className="rounded-lg bg-amber-50 p-3 space-y-1">
+                    <div className="flex justify-between text-amber-900">
+                      <span>Final pickup</span>
+                      <span>{quote.property.finalPickup ? formatDate(`${quote.property.finalPickup}T12:00:00`) : "None"}</span>
+                    </div>
+                    <div className="flex justify-between text-amber-700">
+                      <span>Monthly now</span>
+                      <span>{money(quote.monthly.current, quote.currency)}</span>
+                    </div>
+                    <div className="flex justify-between font-semibold text-amber-900">
+                      <span>New monthly from {formatDate(quote.effectiveAt)}</span>
+                      <span>{money(quote.monthly.updated, quote.currency)}</span>
+                    </div>
+                    {quote.nextInvoice && (
+                      <div className="flex justify-between text-xs text-amber-700">
+                        <span>Invoice on {formatDate(quote.nextInvoice.date)} (incl. credit)</span>
+                        <span>{money(quote.nextInvoice.total, quote.currency)}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <Button type="button" variant="outline" disabled={busy} onClick={() => setRemoving(null)}>
+                    Keep it
+                  </Button>
+                  {quote ? (
+                    <Button type="button" variant="destructive" disabled={busy} onClick={() => submit(true)}>
+                      {busy ? "Removing…" : "Confirm removal"}
+                    </Button>
+                  ) : (
+                    <Button type="button" disabled={busy || !effectiveDate} onClick={() => submit(false)}>
+                      {busy ? "Checking…" : "Review credit"}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+type HoldQuote = Omit<PropertyQuote, "property">;
+
+// Noon keeps a "YYYY-MM-DD" on the same calendar day in any US timezone.
+const formatLocalDate = (date: string) => formatDate(`${date}T12:00:00`);
+
+function HoldsCard({
+  subscriptionId,
+  properties,
+  onChanged,
+}: {
+  subscriptionId: string;
+  properties: Property[];
+  onChanged: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [range, setRange] = useState({ start: tomorrowDate(), end: tomorrowDate() });
+  const [quote, setQuote] = useState<HoldQuote | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const holds = properties.flatMap((p) => (p.holds ?? []).map((h) => ({ ...h, property: p })));
+
+  const submit = async (confirm: boolean) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/stripe/subscription-properties/holds", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ subscriptionId, properties: selected, ...range, confirm }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Unable to schedule the hold");
+      setQuote(json);
+      if (json.confirmed) {
+        setOpen(false);
+        setSelected([]);
+        setQuote(null);
+        onChanged();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to schedule the hold");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const cancel = async (property: number, start: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/stripe/subscription-properties/holds", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ subscriptionId, property, start }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Unable to cancel the hold");
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to cancel the hold");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggle = (index: number, on: boolean) => {
+    setSelected((s) => (on ? [...s, index] : s.filter((i) => i !== index)));
+    setQuote(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PauseCircle className="h-5 w-5" />
+          Vacation Holds
+        </CardTitle>
+        <CardDescription>
+          Away for a while? Pause pickups and you aren&apos;t charged for those days
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {holds.length > 0 && (
+          <div className="space-y-2">
+            {holds.map((h) => (
+              <div
+                key={`${h.property.index}-${h.start}`}
+                className="flex items-center justify-between gap-3 rounded-lg border p-3"
+              >
+                <div>
+                  <div className="font-medium">{h.property.address}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatLocalDate(h.start)} – {formatLocalDate(h.end)}
+                  </div>
+                </div>
+                {h.start > localDate(new Date()) && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={busy}
+                    onClick={() => cancel(h.property.index, h.start)}
+                  >
+                    Cancel hold
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!open ? (
+          <Button type="button" variant="outline" onClick={() => setOpen(true)}>
+            Pause service
+          </Button>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {properties.map((p) => (
+                <label key={p.index} className="flex items-center gap-2">
+                  <Checkbox
+                    checked={selected.includes(p.index)}
+                    onCheckedChange={(v) => toggle(p.index, v === true)}
+                  />
+                  {p.address}
+                </label>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="hold-start">First day away</Label>
+                <Input
+                  id="hold-start"
+                  type="date"
+                  min={tomorrowDate()}
+                  value={range.start}
+                  onChange={(e) => {
+                    setRange((r) => ({ ...r, start: e.target.value }));
+                    setQuote(null);
+                  }}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="hold-end">Last day away</Label>
+                <Input
+                  id="hold-end"
+                  type="date"
+                  min={range.start}
+                  value={range.end}
+                  onChange={(e) => {
+                    setRange((r) => ({ ...r, end: e.target.value }));
+                    setQuote(null);
+                  }}
+                />
+              </div>
+            </div>
+
+            {quote && (
+              <div className="rounded-lg bg-amber-50 p-3 space-y-1">
+                <div className="flex justify-between text-amber-700">
+                  <span>Monthly</span>
+                  <span>{money(quote.monthly.current, quote.currency)}</span>
+                </div>
+                <div className="flex justify-between font-semibold text-amber-900">
+                  <span>Monthly while on hold</span>
+                  <span>{money(quote.monthly.updated, quote.currency)}</span>
+                </div>
+                {quote.nextInvoice && (
+                  <div className="flex justify-between text-xs text-amber-700">
+                    <span>Invoice on {formatDate(quote.nextInvoice.date)} (incl. credit)</span>
+                    <span>{money(quote.nextInvoice.total, quote.currency)}</span>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" disabled={busy} onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              {quote ? (
+                <Button type="button" disabled={busy} onClick={() => submit(true)}>
+                  {busy ? "Scheduling…" : "Confirm hold"}
+                </Button>
+              ) : (
+                <Button
+                  type="button"
+                  disabled={busy || !selected.length || !range.start || !range.end}
+                  onClick={() => submit(false)}
+                >
+                  {busy ? "Checking…" : "Review price"}
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+      </CardContent>
+    </Card>
+  );
+}
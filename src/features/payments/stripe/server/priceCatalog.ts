@@ -0,0 +1,28 @@
+// src/features/payments/stripe/server/priceCatalog.ts
+import { serverOnly } from "@/lib/validation/server-only";
+import { PRICE_BY_PLAN } from "./prices";
+
+serverOnly();
+
+// Local copy of the Stripe prices in PRICE_BY_PLAN, for previews that must not
+// call Stripe. Keep amounts in sync with the dashboard when prices change.
+export type CatalogPrice = {
+  label: string;
+  unitAmount: number; // cents per month
+  currency: string;
+};
+
+export const PRICE_CATALOG: Record<string, CatalogPrice> = {
+  [PRICE_BY_PLAN.individual.trash]: { label: "Trash Valet", unitAmount: 3500, currency: "usd" },
+  [PRICE_BY_PLAN.individual.seasonal_2nd]: {
+    label: "Seasonal 2nd pickup",
+    unitAmount: 2000,
+    currency: "usd",
+  },
+  [PRICE_BY_PLAN.business.trash]: { label: "Trash Valet (business)", unitAmount: 5500, currency: "usd" },
+  [PRICE_BY_PLAN.business.seasonal_2nd]: {
+    label: "Seasonal 2nd pickup (business)",
+    unitAmount: 3000,
+    currency: "usd",
+  },
+};
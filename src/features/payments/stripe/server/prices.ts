@@ -1,12 +1,15 @@
 // src/features/payments/stripe/server/prices.ts
 import { serverOnly } from "@/lib/validation/server-only";
-import type { Plan } from "@/features/payments/stripe/shared/plan";
 
 serverOnly();
 
 export type AccountType = "individual" | "business";
 
-export const PRICE_BY_PLAN: Record<AccountType, Record<Plan, string>> = {
+// The two Stripe prices every plan bills from. "seasonal_only" has no price of its
+// own: it bills `trash` only while an address is in season.
+export type PlanPrices = { trash: string; seasonal_2nd: string };
+
+export const PRICE_BY_PLAN: Record<AccountType, PlanPrices> = {
   individual: {
     trash: "price_1S184RIr0MMYHEqPhw5fJ8IG",
     seasonal_2nd: "price_1S3JWNIr0MMYHEqPjtUJqjdn"
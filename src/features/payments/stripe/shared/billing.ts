@@ -0,0 +1,25 @@
+// How a subscription's invoices are paid. Individuals always pay by card;
+// businesses can instead be invoiced and pay within NET_TERMS_DAYS.
+// "charge_automatically" = card on file, charged on each invoice
+// "send_invoice" = invoice emailed to the customer, due net 30
+
+export const COLLECTION_METHODS = ["charge_automatically", "send_invoice"] as const;
+export type CollectionMethod = typeof COLLECTION_METHODS[number];
+
+export const NET_TERMS_DAYS = 30;
+
+export const COLLECTION_LABELS: Record<CollectionMethod, string> = {
+  charge_automatically: "Pay by card",
+  send_invoice: `Invoice, net ${NET_TERMS_DAYS}`,
+};
+
+// Company details sent with a business signup (see BusinessSchema for the form rules).
+export type BusinessDetails = {
+  companyName: string;
+  taxId?: string; // EIN, "12-3456789"
+  poNumber?: string; // printed on every invoice
+  collectionMethod?: CollectionMethod;
+};
+
+// Team members on a business account; they are copied on invoices.
+export type TeamMember = { name: string; email: string; role?: string };
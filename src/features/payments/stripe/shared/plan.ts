@@ -1,12 +1,21 @@
 // Defines the default checkbox state for seasonal add-ons during signup.
 // "trash" = base service only (seasonal unchecked by default)
 // "seasonal_2nd" = base + seasonal bundle (seasonal checked by default)
+// "seasonal_only" = base service only while each address is in season (vacation homes);
+//   nothing is billed out of season and service resumes with the next season
 // Note: Users can still manually toggle seasonal service per address.
 
-export const PLAN_VALUES = ["trash", "seasonal_2nd"] as const;
+export const PLAN_VALUES = ["trash", "seasonal_2nd", "seasonal_only"] as const;
 export type Plan = typeof PLAN_VALUES[number];
 
 export const PLAN_LABELS: Record<Plan, string> = {
   trash: "Trash Valet",
   seasonal_2nd: "Trash Valet Plus Seasonal",
-};
\ No newline at end of file
+  seasonal_only: "Trash Valet In Season Only",
+};
+
+export const PLAN_DESCRIPTIONS: Record<Plan, string> = {
+  trash: "Weekly pickup all year",
+  seasonal_2nd: "Weekly pickup all year, plus a 2nd pickup in season",
+  seasonal_only: "Weekly pickup only while your area is in season; $0 the rest of the year",
+};
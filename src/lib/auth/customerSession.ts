@@ -0,0 +1,91 @@
+// src/lib/auth/customerSession.ts
+import { createHmac, timingSafeEqual } from "crypto";
+import { serverOnly } from "@/lib/validation/server-only";
+import { requireCustomerSessionSecret } from "@/lib/env/env.server";
+
+/**
+ * Customer sessions for the self-service endpoints (overview, add/remove
+ * property, holds). There is no login yet: signup issues the session, naming the
+ * Stripe customer and the subscriptions created in this browser.
+ *
+ * Subscriptions are listed explicitly because signup reuses an existing
+ * customer by email; knowing someone's email must not open their subscriptions.
+ * Tokens are `<base64url JSON>.<hmac>`, carried in an HttpOnly cookie.
+ */
+
+export const CUSTOMER_SESSION_COOKIE = "tidal_session";
+export const CUSTOMER_SESSION_TTL_SEC = 30 * 24 * 3600;
+const MAX_SESSION_SUBSCRIPTIONS = 20;
+
+export type CustomerSession = {
+  customerId: string;
+  subscriptionIds: string[];
+  exp: number; // epoch seconds
+};
+
+const sign = (payload: string, secret: string) =>
+  createHmac("sha256", secret).update(`session:${payload}`).digest("base64url");
+
+export function hasCustomerSessionSecret(): boolean {
+  return !!process.env.CUSTOMER_SESSION_SECRET;
+}
+
+export function encodeCustomerSession(session: CustomerSession): string {
+  serverOnly();
+  const payload = Buffer.from(
+    JSON.stringify({
+      c: session.customerId,
+      s: session.subscriptionIds.slice(-MAX_SESSION_SUBSCRIPTIONS),
+      e: session.exp,
+    })
+  ).toString("base64url");
+  return `${payload}.${sign(payload, requireCustomerSessionSecret())}`;
+}
+
+/** The session a token carries, or null if it is malformed, forged or expired. */
+export function decodeCustomerSession(
+  token: string,
+  nowEpoch = Math.floor(Date.now() / 1000)
+): CustomerSession | null {
+  serverOnly();
+  const [payload, sig] = token.split(".");
+  if (!payload || !sig) return null;
+  const expected = Buffer.from(sign(payload, requireCustomerSessionSecret()));
+  const given = Buffer.from(sig);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+  try {
+    const { c, s, e } = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    if (typeof c !== "string" || !Array.isArray(s) || typeof e !== "number") return null;
+    if (e <= nowEpoch) return null;
+    return { customerId: c, subscriptionIds: s.filter((id) => typeof id === "string"), exp: e };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The session after signing up `subscriptionId` for `customerId`: added to the
+ * current session when it is the same customer, otherwise a fresh one.
+ */
+export function extendCustomerSession(
+  current: CustomerSession | null,
+  customerId: string,
+  subscriptionId: string,
+  nowEpoch = Math.floor(Date.now() / 1000)
+): CustomerSession {
+  const kept = current?.customerId === customerId ? current.subscriptionIds : [];
+  return {
+    customerId,
+    subscriptionIds: [...kept.filter((id) => id !== subscriptionId), subscriptionId],
+    exp: nowEpoch + CUSTOMER_SESSION_TTL_SEC,
+  };
+}
+
+/** Whether the session may see and change this subscription. */
+export function sessionOwns(
+  session: CustomerSession,
+  sub: { id: string; customer: string | { id: string } }
+): boolean {
+  const customerId = typeof sub.customer === "string" ? sub.customer : sub.customer.id;
+  return customerId === session.customerId && session.subscriptionIds.includes(sub.id);
+}
@@ -0,0 +1,132 @@
+// src/lib/calendar/feed.ts
+import { createHmac, timingSafeEqual } from "crypto";
+import type Stripe from "stripe";
+import { serverOnly } from "@/lib/validation/server-only";
+import { requireCalendarFeedSecret } from "@/lib/env/env.server";
+import { readAddrRules, readServiceAddresses } from "@/lib/db/repository";
+import { formatServiceAddress } from "@/lib/stripe/metadata";
+import { resolveRuleForAddress, type Weekday } from "@/lib/serviceAreas/serviceAreas";
+import "@/lib/serviceAreas/store"; // holiday policies follow the hot-reloaded rule file
+import { buildIcs, type IcsEvent } from "./ics";
+import { formatPickupDate, pickupDates } from "./pickups";
+
+/**
+ * Pickup calendars for a subscription, built from its addr_rules metadata (base
+ * day, 2nd day and the seasonal windows it is billed for) plus the customer's
+ * service_addresses for LOCATION. Everything is computed per request, so a
+ * subscribed feed follows season changes and schedule extensions.
+ *
+ * Feed URLs carry `<subscriptionId>.<hmac>` so they can be handed to calendar
+ * apps without any other credentials.
+ */
+
+// How far ahead events are listed.
+export const CALENDAR_HORIZON_DAYS = 365;
+const FEED_REFRESH_HOURS = 12;
+
+const sign = (subscriptionId: string, secret: string) =>
+  createHmac("sha256", secret).update(`calendar:${subscriptionId}`).digest("base64url");
+
+export function hasCalendarFeedSecret(): boolean {
+  return !!process.env.CALENDAR_FEED_SECRET;
+}
+
+export function feedToken(subscriptionId: string): string {
+  serverOnly();
+  return `${subscriptionId}.${sign(subscriptionId, requireCalendarFeedSecret())}`;
+}
+
+/** The subscription a feed token was issued for, or null if the signature does not match. */
+export function subscriptionIdFromFeedToken(token: string): string | null {
+  serverOnly();
+  const [subscriptionId, sig] = token.replace(/\.ics$/, "").split(".");
+  if (!subscriptionId || !sig) return null;
+  const expected = Buffer.from(sign(subscriptionId, requireCalendarFeedSecret()));
+  const given = Buffer.from(sig);
+  return expected.length === given.length && timingSafeEqual(expected, given)
+    ? subscriptionId
+    : null;
+}
+
+export function calendarFeedUrl(origin: string, subscriptionId: string): string {
+  return `${origin}/api/calendar/feed/${feedToken(subscriptionId)}.ics`;
+}
+
+const ENDED = new Set(["canceled", "incomplete_expired"]);
+
+/** The .ics body for a subscription, or null when it does not exist. */
+export async function subscriptionCalendar(
+  stripe: Stripe,
+  subscriptionId: string,
+  opts: { uidDomain: string; feed?: boolean; nowEpoch?: number }
+): Promise<string | null> {
+  serverOnly();
+  let sub: Stripe.Subscription;
+  try {
+    sub = await stripe.subscriptions.retrieve(subscriptionId, { expand: ["customer"] });
+  } catch (err) {
+    if ((err as Stripe.errors.StripeError)?.code === "resource_missing") return null;
+    throw err;
+  }
+
+  const customer =
+    typeof sub.customer === "string" || sub.customer.deleted ? null : sub.customer;
+  const addresses = readServiceAddresses(sub.id, customer?.metadata);
+  const entries = readAddrRules(sub);
+
+  const now = opts.nowEpoch ?? Math.floor(Date.now() / 1000);
+  const until = Math.min(
+    now + CALENDAR_HORIZON_DAYS * 86400,
+    sub.cancel_at ?? Number.POSITIVE_INFINITY
+  );
+
+  const events: IcsEvent[] = [];
+  if (!ENDED.has(sub.status)) {
+    entries.forEach((entry, index) => {
+      const addr = addresses.find((a) => a.index === index);
+      const location = addr ? formatServiceAddress(addr) : `${entry.c} ${entry.z}`.trim();
+      // Holiday handling is operational, so it follows the current rule for the address.
+      const current = resolveRuleForAddress({
+        line1: addr?.line1 ?? "",
+        city: entry.c ?? "",
+        state: entry.st ?? addr?.state ?? "",
+        zip: entry.z ?? "",
+        location: entry.g,
+      });
+      const optedIn = entry.o != null ? entry.o === 1 : addr?.seasonal_selected === true;
+      const seasonal = entry.s >= 0 && optedIn;
+      const pickups = pickupDates(
+        {
+          baseDay: entry.b as Weekday,
+          secondaryDay: seasonal ? (entry.s as Weekday) : undefined,
+          seasonWindows: entry.w.map(([start, end]) => ({ start, end })),
+          seasonalOnly: entry.so === 1,
+          holds: entry.h?.map(([start, end]) => ({ start, end })),
+          holidayPolicy: current?.holidayPolicy,
+        },
+        now,
+        until
+      );
+      for (const p of pickups) {
+        const what = p.kind === "seasonal" ? "Seasonal trash pickup" : "Trash pickup";
+        events.push({
+          uid: `${sub.id}-${index}-${p.kind}-${p.scheduledDate ?? p.date}@${opts.uidDomain}`,
+          date: p.date,
+          summary: p.status === "skipped" ? `No ${what.toLowerCase()} (${p.holiday})` : what,
+          location,
+          description:
+            p.status === "shifted"
+              ? `Moved from ${formatPickupDate(p.scheduledDate!)} for ${p.holiday}`
+              : undefined,
+          cancelled: p.status === "skipped",
+        });
+      }
+    });
+  }
+
+  return buildIcs({
+    name: "Trash pickups",
+    events: events.sort((a, b) => a.date.localeCompare(b.date)),
+    refreshHours: opts.feed ? FEED_REFRESH_HOURS : undefined,
+  });
+}
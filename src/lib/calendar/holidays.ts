@@ -0,0 +1,87 @@
+// Holiday table (config/holidays.json) and its expansion into calendar dates.
+import { z } from "zod";
+import holidaysFile from "../../../config/holidays.json";
+
+// What happens to a pickup that lands on a holiday.
+export type HolidayPolicy =
+  | "slide" // one day later (further if that day is a holiday too)
+  | "skip" // no pickup that week
+  | "saturday"; // moved to the Saturday of the same week
+
+export const HOLIDAY_POLICIES = ["slide", "skip", "saturday"] as const;
+
+// Either a fixed date (Jul 4) or the nth weekday of a month (4th Thu of Nov; nth -1 = last).
+export type Holiday = { id: string; name: string; month: number } & (
+  | { day: number }
+  | { weekday: number; nth: number }
+);
+
+const HolidaySchema = z.union([
+  z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    month: z.number().int().min(1).max(12),
+    day: z.number().int().min(1).max(31),
+  }),
+  z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    month: z.number().int().min(1).max(12),
+    weekday: z.number().int().min(0).max(6),
+    nth: z
+      .number()
+      .int()
+      .refine((n) => (n >= 1 && n <= 5) || n === -1, "nth must be 1–5, or -1 for the last"),
+  }),
+]);
+
+export const HolidaysFileSchema = z.object({ holidays: z.array(HolidaySchema) });
+
+export const HOLIDAYS: Holiday[] = HolidaysFileSchema.parse(holidaysFile).holidays;
+
+// A calendar day, independent of timezone.
+export type CivilDate = { year: number; month0: number; day: number };
+
+const DAY_MS = 86_400_000;
+
+/** Days since 1970-01-01 for a calendar date (handy for day arithmetic). */
+export const dayNumber = (d: CivilDate) => Date.UTC(d.year, d.month0, d.day) / DAY_MS;
+
+export function civilFromDayNumber(n: number): CivilDate {
+  const d = new Date(n * DAY_MS);
+  return { year: d.getUTCFullYear(), month0: d.getUTCMonth(), day: d.getUTCDate() };
+}
+
+export const weekdayOfDayNumber = (n: number) => new Date(n * DAY_MS).getUTCDay();
+
+/** "YYYY-MM-DD" */
+export const isoDate = (d: CivilDate) =>
+  `${d.year}-${String(d.month0 + 1).padStart(2, "0")}-${String(d.day).padStart(2, "0")}`;
+
+function holidayDayNumber(h: Holiday, year: number): number {
+  const month0 = h.month - 1;
+  if ("day" in h) return dayNumber({ year, month0, day: h.day });
+  if (h.nth === -1) {
+    const last = dayNumber({ year, month0: month0 + 1, day: 0 });
+    return last - ((weekdayOfDayNumber(last) - h.weekday + 7) % 7);
+  }
+  const first = dayNumber({ year, month0, day: 1 });
+  return first + ((h.weekday - weekdayOfDayNumber(first) + 7) % 7) + (h.nth - 1) * 7;
+}
+
+/** Holidays keyed by day number for the given years. */
+export function holidaysByDay(
+  fromYear: number,
+  toYear: number,
+  table: Holiday[] = HOLIDAYS
+): Map<number, Holiday> {
+  const out = new Map<number, Holiday>();
+  for (let y = fromYear; y <= toYear; y++) {
+    for (const h of table) {
+      const n = holidayDayNumber(h, y);
+      // A 5th weekday that does not exist spills into the next month; ignore it.
+      if (civilFromDayNumber(n).month0 === h.month - 1) out.set(n, h);
+    }
+  }
+  return out;
+}
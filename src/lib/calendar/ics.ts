@@ -0,0 +1,85 @@
+// Minimal RFC 5545 (iCalendar) writer for all-day pickup events.
+
+export type IcsEvent = {
+  uid: string;
+  date: string; // "YYYY-MM-DD", all-day
+  summary: string;
+  location?: string;
+  description?: string;
+  cancelled?: boolean;
+};
+
+export type IcsCalendar = {
+  name: string;
+  events: IcsEvent[];
+  refreshHours?: number; // hint for subscribed feeds
+};
+
+// TEXT values escape backslash, semicolon, comma and newlines (RFC 5545 §3.3.11).
+const escapeText = (s: string) =>
+  s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets are folded with CRLF + space (§3.1).
+function fold(line: string): string {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const out: string[] = [];
+  let cur = "";
+  let curLen = 0;
+  for (const ch of line) {
+    const len = new TextEncoder().encode(ch).length;
+    const limit = out.length ? 74 : 75; // continuation lines start with a space
+    if (curLen + len > limit) {
+      out.push(cur);
+      cur = "";
+      curLen = 0;
+    }
+    cur += ch;
+    curLen += len;
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+}
+
+const basicDate = (iso: string) => iso.replace(/-/g, "");
+
+function nextDay(iso: string): string {
+  const [y, m, d] = iso.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + 1)).toISOString().slice(0, 10);
+}
+
+const stamp = (now: Date) => now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+export function buildIcs(cal: IcsCalendar, now = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Seasonal Trash Pickup//Pickup Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(cal.name)}`,
+  ];
+  if (cal.refreshHours) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${cal.refreshHours}H`,
+      `X-PUBLISHED-TTL:PT${cal.refreshHours}H`
+    );
+  }
+  for (const e of cal.events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${e.uid}`,
+      `DTSTAMP:${stamp(now)}`,
+      `DTSTART;VALUE=DATE:${basicDate(e.date)}`,
+      `DTEND;VALUE=DATE:${basicDate(nextDay(e.date))}`,
+      `SUMMARY:${escapeText(e.summary)}`,
+      "TRANSP:TRANSPARENT"
+    );
+    if (e.location) lines.push(`LOCATION:${escapeText(e.location)}`);
+    if (e.description) lines.push(`DESCRIPTION:${escapeText(e.description)}`);
+    if (e.cancelled) lines.push("STATUS:CANCELLED");
+    lines.push("END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,147 @@
+// Concrete pickup dates for a service-area rule over a date range.
+import { serviceTimeZone, zonedMidnightEpoch, zonedParts } from "../date/zoned";
+import {
+  seasonsWindowsBetween,
+  type RecurringSeason,
+  type SeasonWindow,
+} from "../season/recurring";
+import {
+  resolveRuleForAddress,
+  type Address,
+  type Weekday,
+} from "../serviceAreas/serviceAreas";
+import {
+  civilFromDayNumber,
+  dayNumber,
+  holidaysByDay,
+  isoDate,
+  weekdayOfDayNumber,
+  type Holiday,
+  type HolidayPolicy,
+} from "./holidays";
+
+/**
+ * Base pickups happen every week on `baseDay`; the 2nd pickup happens on each
+ * `secondaryDay` that falls inside a season window. A pickup that lands on a
+ * holiday is moved or dropped according to the rule's holidayPolicy. Days inside
+ * a vacation hold get no pickups at all, and a seasonal-only property gets its base
+ * pickups only in season.
+ * Dates are calendar days in the service timezone.
+ */
+
+export type PickupRule = {
+  baseDay: Weekday;
+  secondaryDay?: Weekday;
+  seasons?: RecurringSeason[];
+  // Concrete windows (e.g. the ones pinned in addr_rules metadata); used instead of `seasons`.
+  seasonWindows?: SeasonWindow[];
+  holds?: SeasonWindow[]; // vacation holds, from addr_rules `h`
+  seasonalOnly?: boolean; // addr_rules `so`: base pickups only inside the season windows
+  holidayPolicy?: HolidayPolicy;
+};
+
+export type PickupDate = {
+  date: string; // "YYYY-MM-DD", the day the truck comes (or would have, if skipped)
+  epoch: number; // local midnight starting `date`
+  weekday: Weekday;
+  kind: "base" | "seasonal";
+  status: "scheduled" | "shifted" | "skipped";
+  scheduledDate?: string; // regular day, when shifted
+  holiday?: string; // holiday name, when shifted or skipped
+};
+
+export const DEFAULT_HOLIDAY_POLICY: HolidayPolicy = "slide";
+
+// Look this many days beyond the range so pickups shifted into it are found.
+const SHIFT_MARGIN_DAYS = 7;
+
+function shiftedDay(
+  day: number,
+  policy: HolidayPolicy,
+  holidays: Map<number, Holiday>
+): number | null {
+  if (policy === "skip") return null;
+  let target =
+    policy === "saturday" ? day + ((6 - weekdayOfDayNumber(day) + 7) % 7 || 7) : day + 1;
+  while (holidays.has(target)) target++;
+  return target;
+}
+
+export function pickupDates(
+  rule: PickupRule,
+  fromEpoch: number,
+  toEpoch: number,
+  opts?: { holidays?: Holiday[]; timeZone?: string }
+): PickupDate[] {
+  const timeZone = opts?.timeZone ?? serviceTimeZone();
+  const policy = rule.holidayPolicy ?? DEFAULT_HOLIDAY_POLICY;
+
+  const from = zonedParts(fromEpoch, timeZone);
+  const to = zonedParts(toEpoch, timeZone);
+  const firstDay = dayNumber({ year: from.year, month0: from.month0, day: from.day });
+  const lastDay = dayNumber({ year: to.year, month0: to.month0, day: to.day });
+  const holidays = holidaysByDay(from.year - 1, to.year + 1, opts?.holidays);
+
+  const midnight = (n: number) => {
+    const c = civilFromDayNumber(n);
+    return zonedMidnightEpoch(c.year, c.month0, c.day, timeZone);
+  };
+  const windows =
+    rule.seasonWindows ??
+    seasonsWindowsBetween(
+      rule.seasons ?? [],
+      midnight(firstDay - SHIFT_MARGIN_DAYS),
+      midnight(lastDay + SHIFT_MARGIN_DAYS),
+      timeZone
+    );
+  const inSeason = (epoch: number) => windows.some((w) => epoch >= w.start && epoch < w.end);
+
+  const out: PickupDate[] = [];
+  for (let n = firstDay - SHIFT_MARGIN_DAYS; n <= lastDay; n++) {
+    const wd = weekdayOfDayNumber(n);
+    const kinds: PickupDate["kind"][] = [];
+    if (wd === rule.baseDay && (!rule.seasonalOnly || inSeason(midnight(n)))) kinds.push("base");
+    if (wd === rule.secondaryDay && inSeason(midnight(n))) kinds.push("seasonal");
+
+    for (const kind of kinds) {
+      const holiday = holidays.get(n);
+      const day = holiday ? shiftedDay(n, policy, holidays) : n;
+      const actual = day ?? n;
+      const epoch = midnight(actual);
+      if (actual < firstDay || epoch >= toEpoch) continue;
+      if (rule.holds?.some((h) => epoch >= h.start && epoch < h.end)) continue;
+      out.push({
+        date: isoDate(civilFromDayNumber(actual)),
+        epoch,
+        weekday: weekdayOfDayNumber(actual) as Weekday,
+        kind,
+        status: !holiday ? "scheduled" : day == null ? "skipped" : "shifted",
+        ...(holiday && day != null && { scheduledDate: isoDate(civilFromDayNumber(n)) }),
+        ...(holiday && { holiday: holiday.name }),
+      });
+    }
+  }
+  return out.sort((a, b) => a.epoch - b.epoch || (a.kind === "base" ? -1 : 1));
+}
+
+/** Pickup dates for an address, or null when it is outside every service area. */
+export function pickupDatesForAddress(
+  addr: Address,
+  fromEpoch: number,
+  toEpoch: number,
+  opts?: { holidays?: Holiday[]; timeZone?: string }
+): PickupDate[] | null {
+  const rule = resolveRuleForAddress(addr);
+  return rule ? pickupDates(rule, fromEpoch, toEpoch, opts) : null;
+}
+
+/** "2026-11-26" → "Thu, Nov 26" */
+export function formatPickupDate(date: string): string {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { seasonOccurrence, seasonWindowsBetween } from "@/lib/season/recurring";
+import { monthStartsBetween, nextMonthFirstEpoch, startOfMonthEpoch } from "./utcMonth";
+import { zonedEpoch, zonedMidnightEpoch, zonedParts } from "./zoned";
+
+const utc = (y: number, m0: number, d: number, h = 0) => Date.UTC(y, m0, d, h) / 1000;
+
+describe("month starts in America/New_York", () => {
+  it("are local midnight on the 1st, on either side of DST", () => {
+    expect(startOfMonthEpoch(2025, 2)).toBe(utc(2025, 2, 1, 5)); // Mar 1, EST
+    expect(startOfMonthEpoch(2025, 3)).toBe(utc(2025, 3, 1, 4)); // Apr 1, EDT
+    expect(startOfMonthEpoch(2025, 10)).toBe(utc(2025, 10, 1, 4)); // Nov 1, still EDT
+    expect(startOfMonthEpoch(2025, 11)).toBe(utc(2025, 11, 1, 5)); // Dec 1, EST
+  });
+
+  it("lists every 1st of a year at 00:00 local", () => {
+    const starts = monthStartsBetween(zonedMidnightEpoch(2025, 0, 1), zonedMidnightEpoch(2026, 0, 1));
+    expect(starts).toHaveLength(12);
+    starts.forEach((epoch, i) => {
+      expect(zonedParts(epoch)).toEqual({ year: 2025, month0: i, day: 1, hour: 0, minute: 0, second: 0 });
+    });
+  });
+
+  it("skips the current month unless the range starts exactly on its 1st", () => {
+    const march = startOfMonthEpoch(2025, 2);
+    expect(monthStartsBetween(march, march + 1)).toEqual([march]);
+    expect(monthStartsBetween(march + 1, startOfMonthEpoch(2025, 4))).toEqual([
+      startOfMonthEpoch(2025, 3),
+    ]);
+  });
+
+  it("counts the hours of the DST months correctly", () => {
+    const [mar, apr, , , , , , , nov, dec] = monthStartsBetween(
+      startOfMonthEpoch(2025, 2),
+      startOfMonthEpoch(2026, 0)
+    );
+    expect(apr - mar).toBe(31 * 86400 - 3600);
+    expect(dec - nov).toBe(30 * 86400 + 3600);
+  });
+});
+
+describe("nextMonthFirstEpoch", () => {
+  it("finds the next local 1st late on the last evening of the month", () => {
+    // 23:30 on Mar 31 is already Apr 1 in UTC
+    expect(nextMonthFirstEpoch(zonedEpoch(2025, 2, 31, 23, 30))).toBe(utc(2025, 3, 1, 4));
+  });
+
+  it("moves a month on from a 1st", () => {
+    expect(nextMonthFirstEpoch(startOfMonthEpoch(2025, 9))).toBe(startOfMonthEpoch(2025, 10));
+  });
+
+  it("crosses the fall-back day and the year end", () => {
+    expect(nextMonthFirstEpoch(zonedEpoch(2025, 10, 2, 1, 30))).toBe(utc(2025, 11, 1, 5));
+    expect(nextMonthFirstEpoch(zonedEpoch(2025, 11, 31, 12))).toBe(utc(2026, 0, 1, 5));
+  });
+});
+
+describe("season starts", () => {
+  it("begin and end at local midnight whatever the offset", () => {
+    // Mar 1 → Nov 15 starts on EST and ends on EST, with both transitions inside
+    const w = seasonOccurrence({ start: { month: 3, day: 1 }, end: { month: 11, day: 15 } }, 2025);
+    expect(w).toEqual({ start: utc(2025, 2, 1, 5), end: utc(2025, 10, 15, 5) });
+
+    // A season starting on the spring-forward day itself
+    const dst = seasonOccurrence({ start: { month: 3, day: 9 }, end: { month: 11, day: 2 } }, 2025);
+    expect(dst).toEqual({ start: utc(2025, 2, 9, 5), end: utc(2025, 10, 2, 4) });
+  });
+
+  it("wraps over New Year into local midnight of the next year", () => {
+    const winter = { start: { month: 12, day: 1 }, end: { month: 3, day: 1 } };
+    const windows = seasonWindowsBetween(winter, utc(2025, 0, 1), utc(2026, 0, 1));
+    expect(windows).toEqual([
+      { start: utc(2024, 11, 1, 5), end: utc(2025, 2, 1, 5) },
+      { start: utc(2025, 11, 1, 5), end: utc(2026, 2, 1, 5) },
+    ]);
+  });
+});
@@ -1,32 +1,48 @@
-// UTC month helpers (epoch seconds)
+// Month helpers (epoch seconds). Month boundaries are local midnight on the 1st
+// in the service timezone (see ./zoned); pass "UTC" for plain UTC months.
+import { serviceTimeZone, zonedMidnightEpoch, zonedParts } from "./zoned";
 
 export function startOfMonthUtcEpoch(year: number, month0: number): number {
   return Math.floor(Date.UTC(year, month0, 1, 0, 0, 0) / 1000);
 }
 
-export function nextMonthFirstEpoch(nowSec: number): number {
-  const d = new Date(nowSec * 1000);
-  return startOfMonthUtcEpoch(d.getUTCFullYear(), d.getUTCMonth() + 1);
+/** Local midnight on the 1st of a month in `timeZone`; month0 may roll over (12 → next Jan). */
+export function startOfMonthEpoch(
+  year: number,
+  month0: number,
+  timeZone = serviceTimeZone()
+): number {
+  return zonedMidnightEpoch(year, month0, 1, timeZone);
 }
 
-export function monthStartsBetween(minStart: number, maxEnd: number): number[] {
+export function nextMonthFirstEpoch(nowSec: number, timeZone = serviceTimeZone()): number {
+  const d = zonedParts(nowSec, timeZone);
+  return startOfMonthEpoch(d.year, d.month0 + 1, timeZone);
+}
+
+export function monthStartsBetween(
+  minStart: number,
+  maxEnd: number,
+  timeZone = serviceTimeZone()
+): number[] {
   const first = (() => {
-    const d = new Date(minStart * 1000);
-    const mStart = startOfMonthUtcEpoch(d.getUTCFullYear(), d.getUTCMonth());
-    return mStart < minStart
-      ? startOfMonthUtcEpoch(d.getUTCFullYear(), d.getUTCMonth() + 1)
-      : mStart;
+    const d = zonedParts(minStart, timeZone);
+    const mStart = startOfMonthEpoch(d.year, d.month0, timeZone);
+    return mStart < minStart ? startOfMonthEpoch(d.year, d.month0 + 1, timeZone) : mStart;
   })();
   const result: number[] = [];
   let cur = first;
   while (cur < maxEnd) {
     result.push(cur);
-    const cd = new Date(cur * 1000);
-    cur = startOfMonthUtcEpoch(cd.getUTCFullYear(), cd.getUTCMonth() + 1);
+    cur = nextMonthFirstEpoch(cur, timeZone);
   }
   return result;
 }
 
-export function monthsBetweenEpochs(startEpoch: number, endEpoch: number): number {
-  return monthStartsBetween(startEpoch, endEpoch).length;
+export function monthsBetweenEpochs(
+  startEpoch: number,
+  endEpoch: number,
+  timeZone = serviceTimeZone()
+): number {
+  return monthStartsBetween(startEpoch, endEpoch, timeZone).length;
 }
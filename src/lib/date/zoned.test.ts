@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { zonedEpoch, zonedMidnightEpoch, zonedParts, zoneOffsetSec } from "./zoned";
+
+// America/New_York in 2025: clocks spring forward Mar 9 at 02:00 EST and fall
+// back Nov 2 at 02:00 EDT.
+const utc = (y: number, m0: number, d: number, h = 0, min = 0) =>
+  Date.UTC(y, m0, d, h, min) / 1000;
+
+describe("zonedEpoch", () => {
+  it("uses EST in winter and EDT in summer", () => {
+    expect(zonedEpoch(2025, 0, 15, 12)).toBe(utc(2025, 0, 15, 17));
+    expect(zonedEpoch(2025, 6, 15, 12)).toBe(utc(2025, 6, 15, 16));
+  });
+
+  describe("spring-forward gap", () => {
+    it("keeps midnight on EST", () => {
+      expect(zonedMidnightEpoch(2025, 2, 9)).toBe(utc(2025, 2, 9, 5));
+    });
+
+    it("pushes a skipped wall time forward by the gap (02:30 → 03:30 EDT)", () => {
+      const t = zonedEpoch(2025, 2, 9, 2, 30);
+      expect(t).toBe(utc(2025, 2, 9, 7, 30));
+      expect(zonedParts(t)).toMatchObject({ day: 9, hour: 3, minute: 30 });
+    });
+
+    it("switches to EDT at 03:00", () => {
+      expect(zonedEpoch(2025, 2, 9, 1, 59)).toBe(utc(2025, 2, 9, 6, 59));
+      expect(zonedEpoch(2025, 2, 9, 3)).toBe(utc(2025, 2, 9, 7));
+    });
+
+    it("makes the day 23 hours long", () => {
+      expect(zonedMidnightEpoch(2025, 2, 10) - zonedMidnightEpoch(2025, 2, 9)).toBe(23 * 3600);
+    });
+  });
+
+  describe("fall-back repeated hour", () => {
+    it("resolves 01:30 to its first (EDT) occurrence", () => {
+      const t = zonedEpoch(2025, 10, 2, 1, 30);
+      expect(t).toBe(utc(2025, 10, 2, 5, 30));
+      expect(zoneOffsetSec(t)).toBe(-4 * 3600);
+      // The second 01:30, an hour later, is EST
+      expect(zonedParts(t + 3600)).toMatchObject({ hour: 1, minute: 30 });
+      expect(zoneOffsetSec(t + 3600)).toBe(-5 * 3600);
+    });
+
+    it("is on EST from 02:00", () => {
+      expect(zonedEpoch(2025, 10, 2, 2)).toBe(utc(2025, 10, 2, 7));
+    });
+
+    it("keeps midnight on EDT and makes the day 25 hours long", () => {
+      expect(zonedMidnightEpoch(2025, 10, 2)).toBe(utc(2025, 10, 2, 4));
+      expect(zonedMidnightEpoch(2025, 10, 3) - zonedMidnightEpoch(2025, 10, 2)).toBe(25 * 3600);
+    });
+  });
+
+  it("rolls out-of-range fields over like Date.UTC", () => {
+    expect(zonedMidnightEpoch(2025, 12, 1)).toBe(zonedMidnightEpoch(2026, 0, 1));
+    expect(zonedMidnightEpoch(2025, 1, 29)).toBe(zonedMidnightEpoch(2025, 2, 1));
+  });
+
+  it("takes an explicit zone", () => {
+    expect(zonedMidnightEpoch(2025, 2, 9, "UTC")).toBe(utc(2025, 2, 9));
+    expect(zonedMidnightEpoch(2025, 2, 9, "America/Los_Angeles")).toBe(utc(2025, 2, 9, 8));
+  });
+});
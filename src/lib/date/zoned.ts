@@ -0,0 +1,110 @@
+// Wall-clock ↔ epoch conversion in the service timezone (epoch seconds).
+//
+// Seasons, month boundaries and billing anchors are calendar dates where the
+// customers live, not in UTC: "May 1" starts at local midnight. Offsets come from
+// Intl, so DST transitions are whatever the IANA database says for the zone.
+
+export const DEFAULT_SERVICE_TIMEZONE = "America/New_York";
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    // Throws a RangeError for unknown zones.
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, f);
+  }
+  return f;
+}
+
+// NEXT_PUBLIC_ so server and client bundles agree on the zone.
+let _zone: string | null = null;
+
+export function serviceTimeZone(): string {
+  if (_zone) return _zone;
+  const tz = process.env.NEXT_PUBLIC_SERVICE_TIMEZONE || DEFAULT_SERVICE_TIMEZONE;
+  try {
+    formatterFor(tz);
+  } catch {
+    throw new Error(`Invalid NEXT_PUBLIC_SERVICE_TIMEZONE: ${tz}`);
+  }
+  _zone = tz;
+  return tz;
+}
+
+export type ZonedParts = {
+  year: number;
+  month0: number; // 0–11
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+/** Local calendar fields of an instant in `timeZone`. */
+export function zonedParts(epochSec: number, timeZone = serviceTimeZone()): ZonedParts {
+  const parts = formatterFor(timeZone).formatToParts(new Date(epochSec * 1000));
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return {
+    year: get("year"),
+    month0: get("month") - 1,
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/** Seconds to add to UTC to get local time in `timeZone` at that instant (e.g. -14400 for EDT). */
+export function zoneOffsetSec(epochSec: number, timeZone = serviceTimeZone()): number {
+  const p = zonedParts(Math.floor(epochSec), timeZone);
+  const asUtc = Date.UTC(p.year, p.month0, p.day, p.hour, p.minute, p.second) / 1000;
+  return asUtc - Math.floor(epochSec);
+}
+
+/**
+ * Epoch of a local wall-clock time in `timeZone`. Out-of-range fields roll over
+ * like Date.UTC (month0 = 12 is January next year). A repeated time (fall-back)
+ * resolves to its first occurrence; a skipped one (spring-forward) is pushed
+ * forward by the gap, as Date does (02:30 → 03:30).
+ */
+export function zonedEpoch(
+  year: number,
+  month0: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+  second = 0,
+  timeZone = serviceTimeZone()
+): number {
+  const wall = Math.floor(Date.UTC(year, month0, day, hour, minute, second) / 1000);
+  // Try the offset in effect just before and just after the wall time; the
+  // first that round-trips is the answer. Neither does only inside a DST gap.
+  const before = zoneOffsetSec(wall - 86400, timeZone);
+  const after = zoneOffsetSec(wall + 86400, timeZone);
+  for (const off of [before, after]) {
+    const t = wall - off;
+    if (zoneOffsetSec(t, timeZone) === off) return t;
+  }
+  // In the gap: the clocks jumped from `before` to `after`.
+  return wall - before;
+}
+
+/** Local midnight starting the given calendar day in `timeZone`. */
+export const zonedMidnightEpoch = (
+  year: number,
+  month0: number,
+  day: number,
+  timeZone = serviceTimeZone()
+) => zonedEpoch(year, month0, day, 0, 0, 0, timeZone);
@@ -0,0 +1,119 @@
+// src/lib/db/db.ts
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import path from "path";
+import { serverOnly } from "@/lib/validation/server-only";
+import { databasePath } from "@/lib/env/env.server";
+
+/**
+ * The local SQLite database (see `repository.ts` for what lives in it).
+ *
+ * Opened once per process in WAL mode. Migrations are applied in order on open,
+ * tracked by `PRAGMA user_version`; append new ones, never edit old ones.
+ */
+
+const MIGRATIONS: string[] = [
+  // 1: customers, subscriptions, their properties and addr_rules snapshots
+  `
+  CREATE TABLE customers (
+    id TEXT PRIMARY KEY,             -- Stripe customer id
+    email TEXT,
+    name TEXT,
+    company_name TEXT,
+    tax_id TEXT,
+    po_number TEXT,
+    collection_method TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX customers_email ON customers (email);
+
+  CREATE TABLE team_members (
+    customer_id TEXT NOT NULL REFERENCES customers (id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    email TEXT NOT NULL,
+    role TEXT,
+    PRIMARY KEY (customer_id, position)
+  );
+
+  CREATE TABLE subscriptions (
+    id TEXT PRIMARY KEY,             -- Stripe subscription id
+    customer_id TEXT NOT NULL REFERENCES customers (id),
+    account_type TEXT NOT NULL,
+    plan TEXT NOT NULL,
+    status TEXT,                     -- Stripe status, kept current by the webhook
+    schedule_id TEXT,
+    rules_version INTEGER NOT NULL,  -- current rule_snapshots.version
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX subscriptions_customer ON subscriptions (customer_id);
+
+  -- One row per service address, in addr_rules order; rule is the AddrRuleCompact JSON
+  CREATE TABLE properties (
+    subscription_id TEXT NOT NULL REFERENCES subscriptions (id) ON DELETE CASCADE,
+    idx INTEGER NOT NULL,
+    line1 TEXT,
+    line2 TEXT,
+    city TEXT NOT NULL,
+    state TEXT,
+    postal_code TEXT NOT NULL,
+    seasonal_selected INTEGER NOT NULL DEFAULT 0,
+    rule TEXT NOT NULL,
+    PRIMARY KEY (subscription_id, idx)
+  );
+  CREATE INDEX properties_postal_code ON properties (postal_code);
+
+  -- Every addr_rules list a subscription has had, newest version is current
+  CREATE TABLE rule_snapshots (
+    subscription_id TEXT NOT NULL REFERENCES subscriptions (id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    source TEXT NOT NULL,
+    rules TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (subscription_id, version)
+  );
+  `,
+  // 2: client idempotency keys (signup), claimed through the primary key so
+  // every process sharing the file sees the same claims
+  `
+  CREATE TABLE idempotency_keys (
+    scope TEXT NOT NULL,
+    key TEXT NOT NULL,
+    fingerprint TEXT NOT NULL,       -- hash of the normalized request
+    status INTEGER,                  -- stored response; null while the request runs
+    body TEXT,
+    claimed_at INTEGER NOT NULL,
+    settled_at INTEGER,
+    PRIMARY KEY (scope, key)
+  );
+  `,
+];
+
+function migrate(db: Database.Database) {
+  const current = db.pragma("user_version", { simple: true }) as number;
+  for (let v = current; v < MIGRATIONS.length; v++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[v]);
+      db.pragma(`user_version = ${v + 1}`);
+    })();
+    console.log("[db] migrated to v" + (v + 1));
+  }
+}
+
+let db: Database.Database | null = null;
+
+export function getDb(): Database.Database {
+  serverOnly();
+  if (db) return db;
+  const file = path.resolve(process.cwd(), databasePath());
+  mkdirSync(path.dirname(file), { recursive: true });
+  const opened = new Database(file);
+  opened.pragma("journal_mode = WAL");
+  opened.pragma("foreign_keys = ON");
+  opened.pragma("busy_timeout = 5000"); // scripts and the server share the file
+  migrate(opened);
+  db = opened;
+  return db;
+}
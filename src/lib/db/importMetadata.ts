@@ -0,0 +1,161 @@
+// src/lib/db/importMetadata.ts
+import type Stripe from "stripe";
+import type { TeamMember } from "@/features/payments/stripe/shared/billing";
+import type { Plan } from "@/features/payments/stripe/shared/plan";
+import { serverOnly } from "@/lib/validation/server-only";
+import { readAddrRulesFromMeta } from "@/lib/stripe/phaseBuilder";
+import {
+  readChunkedMeta,
+  readServiceAddressesFromMeta,
+  rewriteChunkedMeta,
+} from "@/lib/stripe/metadata";
+import { addrRulesRefMetadata, findSubscription, recordSubscription } from "./repository";
+
+/**
+ * One-off import of subscriptions that predate the repository: their addr_rules
+ * (subscription metadata) plus service addresses and business details (customer
+ * metadata) become repository rows with rule snapshot 1. With `clearMetadata`,
+ * the JSON chunks are then removed from Stripe and the subscription points at
+ * its snapshot through `addr_rules_v`, like new signups.
+ */
+
+export type ImportResult = {
+  subscriptionId: string;
+  status: "imported" | "exists" | "skipped" | "failed";
+  reason?: string;
+  properties?: number;
+  addresses?: boolean; // service addresses found and aligned with the rules
+  cleared?: boolean; // legacy metadata removed from Stripe
+};
+
+// Customer metadata `team_members`, written by business signups: [{ n, e, r? }]
+function readTeamFromMeta(meta: Record<string, string>): TeamMember[] | undefined {
+  try {
+    const arr = JSON.parse(readChunkedMeta(meta, "team_members") || "null");
+    if (!Array.isArray(arr)) return undefined;
+    return arr
+      .filter((m) => m && typeof m.n === "string" && typeof m.e === "string")
+      .map((m) => ({ name: m.n, email: m.e, role: typeof m.r === "string" ? m.r : undefined }));
+  } catch {
+    return undefined;
+  }
+}
+
+const hasChunks = (meta: Record<string, string> | undefined, prefix: string) =>
+  Object.keys(meta ?? {}).some((k) => k === prefix || new RegExp(`^${prefix}_\\d+$`).test(k));
+
+async function clearLegacyMetadata(
+  stripe: Stripe,
+  sub: Stripe.Subscription,
+  customer: Stripe.Customer | null,
+  opts: { version: number; addresses: boolean }
+) {
+  await stripe.subscriptions.update(sub.id, {
+    metadata: addrRulesRefMetadata(sub.metadata, opts.version),
+  });
+  // Addresses stay on the customer until the repository has them
+  if (!customer || !opts.addresses) return;
+  await stripe.customers.update(customer.id, {
+    metadata: {
+      ...rewriteChunkedMeta(customer.metadata, "service_addresses", null),
+      ...rewriteChunkedMeta(customer.metadata, "team_members", null),
+      ...(customer.metadata?.company_name != null && { company_name: "" }),
+      ...(customer.metadata?.po_number != null && { po_number: "" }),
+    },
+  });
+}
+
+async function importOne(
+  stripe: Stripe,
+  sub: Stripe.Subscription,
+  opts: { dryRun: boolean; clearMetadata: boolean }
+): Promise<ImportResult> {
+  const result: ImportResult = { subscriptionId: sub.id, status: "skipped" };
+  const recorded = findSubscription(sub.id);
+  const legacy = hasChunks(sub.metadata, "addr_rules");
+  if (recorded && !(legacy && opts.clearMetadata)) return { ...result, status: "exists" };
+
+  const entries = readAddrRulesFromMeta(sub.metadata);
+  if (!recorded && !entries.length) return { ...result, reason: "no addr_rules metadata" };
+
+  const customerId = typeof sub.customer === "string" ? sub.customer : sub.customer.id;
+  const fetched = await stripe.customers.retrieve(customerId);
+  const customer = fetched.deleted ? null : fetched;
+  const meta = customer?.metadata ?? {};
+  const found = readServiceAddressesFromMeta(meta);
+  // Customer-level addresses only describe this subscription when they line up with its rules
+  const addresses =
+    found.length === entries.length && found.every((a, i) => a.city === entries[i].c)
+      ? found
+      : undefined;
+
+  result.properties = entries.length;
+  result.addresses = !!addresses;
+  if (opts.dryRun) return { ...result, status: recorded ? "exists" : "imported" };
+
+  const version = recorded
+    ? recorded.rulesVersion
+    : recordSubscription({
+        customer: {
+          id: customerId,
+          email: customer?.email ?? undefined,
+          name: customer?.name ?? undefined,
+          companyName: meta.company_name || undefined,
+          poNumber: meta.po_number || undefined,
+          team: readTeamFromMeta(meta),
+        },
+        subscription: {
+          id: sub.id,
+          customerId,
+          accountType: sub.metadata?.signup_account_type === "business" ? "business" : "individual",
+          plan: (sub.metadata?.signup_plan as Plan | undefined) ?? "trash",
+          status: sub.status,
+          scheduleId: typeof sub.schedule === "string" ? sub.schedule : sub.schedule?.id,
+        },
+        entries,
+        addresses,
+        source: "import",
+      });
+  result.status = recorded ? "exists" : "imported";
+
+  if (opts.clearMetadata) {
+    await clearLegacyMetadata(stripe, sub, customer, { version, addresses: !!addresses });
+    result.cleared = true;
+  }
+  return result;
+}
+
+/**
+ * Import one subscription, or every one (any status) that still carries
+ * addr_rules metadata. Already-imported subscriptions are left alone, except
+ * that `clearMetadata` still strips their leftover chunks.
+ */
+export async function importMetadata(
+  stripe: Stripe,
+  opts?: { subscriptionId?: string; dryRun?: boolean; clearMetadata?: boolean; limit?: number }
+): Promise<ImportResult[]> {
+  serverOnly();
+  const run = { dryRun: opts?.dryRun ?? false, clearMetadata: opts?.clearMetadata ?? false };
+  const results: ImportResult[] = [];
+  const each = async (sub: Stripe.Subscription) => {
+    try {
+      results.push(await importOne(stripe, sub, run));
+    } catch (err) {
+      results.push({
+        subscriptionId: sub.id,
+        status: "failed",
+        reason: err instanceof Error ? err.message : String(err),
+      });
+    }
+  };
+
+  if (opts?.subscriptionId) {
+    await each(await stripe.subscriptions.retrieve(opts.subscriptionId));
+    return results;
+  }
+  for await (const sub of stripe.subscriptions.list({ status: "all", limit: 100 })) {
+    if (opts?.limit != null && results.length >= opts.limit) break;
+    await each(sub);
+  }
+  return results;
+}
@@ -0,0 +1,359 @@
+// src/lib/db/repository.ts
+import type Stripe from "stripe";
+import type { AccountType } from "@/features/payments/stripe/server/prices";
+import type { Plan } from "@/features/payments/stripe/shared/plan";
+import type { CollectionMethod, TeamMember } from "@/features/payments/stripe/shared/billing";
+import { serverOnly } from "@/lib/validation/server-only";
+import {
+  readAddrRulesFromMeta,
+  type AddrRuleCompact,
+} from "@/lib/stripe/phaseBuilder";
+import {
+  readServiceAddressesFromMeta,
+  rewriteChunkedMeta,
+  type ServiceAddressMeta,
+} from "@/lib/stripe/metadata";
+import { getDb } from "./db";
+
+/**
+ * Customers, subscriptions, their properties and every addr_rules list they have
+ * had, in the local database. Stripe metadata only points here: the subscription
+ * carries `addr_rules_v`, the current snapshot version. Subscriptions written
+ * before the repository existed still carry JSON chunks in their metadata; the
+ * `read*` helpers fall back to those until `npm run db:import-metadata` runs.
+ */
+
+export type RuleSnapshotSource = "signup" | "amendment" | "extend" | "drift" | "import";
+
+export type CustomerRecord = {
+  id: string; // Stripe customer id
+  email?: string;
+  name?: string;
+  companyName?: string;
+  taxId?: string;
+  poNumber?: string;
+  collectionMethod?: CollectionMethod;
+  team?: TeamMember[]; // replaces the stored team when given
+};
+
+export type SubscriptionRecord = {
+  id: string; // Stripe subscription id
+  customerId: string;
+  accountType: AccountType;
+  plan: Plan;
+  status?: Stripe.Subscription.Status;
+  scheduleId?: string;
+  rulesVersion: number;
+};
+
+export type RuleSnapshot = {
+  version: number;
+  source: RuleSnapshotSource;
+  rules: AddrRuleCompact[];
+  createdAt: number; // epoch seconds
+};
+
+type PropertyRow = {
+  idx: number;
+  line1: string | null;
+  line2: string | null;
+  city: string;
+  state: string | null;
+  postal_code: string;
+  seasonal_selected: number;
+  rule: string;
+};
+
+const nowSec = () => Math.floor(Date.now() / 1000);
+
+// ——— writes ———
+
+/** Insert or update a customer; fields left undefined keep their stored value. */
+export function upsertCustomer(customer: CustomerRecord) {
+  serverOnly();
+  const db = getDb();
+  db.transaction(() => {
+    const at = nowSec();
+    db.prepare(
+      `INSERT INTO customers (id, email, name, company_name, tax_id, po_number, collection_method, created_at, updated_at)
+       VALUES (@id, @email, @name, @companyName, @taxId, @poNumber, @collectionMethod, @at, @at)
+       ON CONFLICT (id) DO UPDATE SET
+         email = coalesce(excluded.email, email),
+         name = coalesce(excluded.name, name),
+         company_name = coalesce(excluded.company_name, company_name),
+         tax_id = coalesce(excluded.tax_id, tax_id),
+         po_number = coalesce(excluded.po_number, po_number),
+         collection_method = coalesce(excluded.collection_method, collection_method),
+         updated_at = excluded.updated_at`
+    ).run({
+      id: customer.id,
+      email: customer.email ?? null,
+      name: customer.name ?? null,
+      companyName: customer.companyName ?? null,
+      taxId: customer.taxId ?? null,
+      poNumber: customer.poNumber ?? null,
+      collectionMethod: customer.collectionMethod ?? null,
+      at,
+    });
+    if (!customer.team) return;
+    db.prepare(`DELETE FROM team_members WHERE customer_id = ?`).run(customer.id);
+    const insert = db.prepare(
+      `INSERT INTO team_members (customer_id, position, name, email, role) VALUES (?, ?, ?, ?, ?)`
+    );
+    customer.team.forEach((m, i) => insert.run(customer.id, i, m.name, m.email, m.role ?? null));
+  })();
+}
+
+// New snapshot + property rows for `entries`; returns the new version. Without
+// `addresses`, each row keeps the address it had at the same index (same city).
+function writeRules(
+  subscriptionId: string,
+  entries: AddrRuleCompact[],
+  source: RuleSnapshotSource,
+  addresses?: ServiceAddressMeta[]
+): number {
+  const db = getDb();
+  const at = nowSec();
+  const { rules_version } = db
+    .prepare(`SELECT rules_version FROM subscriptions WHERE id = ?`)
+    .get(subscriptionId) as { rules_version: number };
+  const version = rules_version + 1;
+
+  const previous = new Map(
+    (
+      db
+        .prepare(`SELECT * FROM properties WHERE subscription_id = ?`)
+        .all(subscriptionId) as PropertyRow[]
+    ).map((row) => [row.idx, row])
+  );
+  db.prepare(
+    `INSERT INTO rule_snapshots (subscription_id, version, source, rules, created_at) VALUES (?, ?, ?, ?, ?)`
+  ).run(subscriptionId, version, source, JSON.stringify(entries), at);
+
+  db.prepare(`DELETE FROM properties WHERE subscription_id = ?`).run(subscriptionId);
+  const insert = db.prepare(
+    `INSERT INTO properties (subscription_id, idx, line1, line2, city, state, postal_code, seasonal_selected, rule)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  entries.forEach((entry, idx) => {
+    const given = addresses?.[idx];
+    const kept = !addresses && previous.get(idx)?.city === entry.c ? previous.get(idx) : undefined;
+    insert.run(
+      subscriptionId,
+      idx,
+      given?.line1 ?? kept?.line1 ?? null,
+      given?.line2 ?? kept?.line2 ?? null,
+      given?.city ?? entry.c,
+      given?.state ?? entry.st ?? kept?.state ?? null,
+      given?.postal_code ?? entry.z,
+      given ? Number(!!given.seasonal_selected) : kept?.seasonal_selected ?? entry.o ?? 0,
+      JSON.stringify(entry)
+    );
+  });
+
+  db.prepare(`UPDATE subscriptions SET rules_version = ?, updated_at = ? WHERE id = ?`).run(
+    version,
+    at,
+    subscriptionId
+  );
+  return version;
+}
+
+/**
+ * Record a new subscription with its customer and properties as rule snapshot 1.
+ * Returns the subscription's current rules version; repeating it for a
+ * subscription that is already recorded (a retried signup) changes nothing.
+ */
+export function recordSubscription(opts: {
+  customer: CustomerRecord;
+  subscription: Omit<SubscriptionRecord, "rulesVersion">;
+  entries: AddrRuleCompact[];
+  addresses?: ServiceAddressMeta[];
+  source?: RuleSnapshotSource;
+}): number {
+  serverOnly();
+  const db = getDb();
+  return db.transaction(() => {
+    const existing = findSubscription(opts.subscription.id);
+    if (existing) return existing.rulesVersion;
+    upsertCustomer(opts.customer);
+    const { id, customerId, accountType, plan, status, scheduleId } = opts.subscription;
+    const at = nowSec();
+    db.prepare(
+      `INSERT INTO subscriptions (id, customer_id, account_type, plan, status, schedule_id, rules_version, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, 0, ?, ?)`
+    ).run(id, customerId, accountType, plan, status ?? null, scheduleId ?? null, at, at);
+    return writeRules(id, opts.entries, opts.source ?? "signup", opts.addresses);
+  })();
+}
+
+/**
+ * Store a new addr_rules list for a live subscription and return its version.
+ * A subscription the repository hasn't seen (not yet imported) is recorded from
+ * its Stripe metadata first.
+ */
+export function saveAddrRules(
+  sub: Stripe.Subscription,
+  entries: AddrRuleCompact[],
+  opts: { source: RuleSnapshotSource; addresses?: ServiceAddressMeta[] }
+): number {
+  serverOnly();
+  const db = getDb();
+  return db.transaction(() => {
+    if (!findSubscription(sub.id)) {
+      const customerId = typeof sub.customer === "string" ? sub.customer : sub.customer.id;
+      recordSubscription({
+        customer: { id: customerId },
+        subscription: {
+          id: sub.id,
+          customerId,
+          accountType: sub.metadata?.signup_account_type === "business" ? "business" : "individual",
+          plan: (sub.metadata?.signup_plan as Plan | undefined) ?? "trash",
+          status: sub.status,
+        },
+        entries: readAddrRulesFromMeta(sub.metadata),
+        source: "import",
+      });
+    }
+    return writeRules(sub.id, entries, opts.source, opts.addresses);
+  })();
+}
+
+/** Webhook bookkeeping: the subscription's Stripe status and schedule. False when it isn't recorded. */
+export function updateSubscriptionState(
+  id: string,
+  state: { status?: Stripe.Subscription.Status; scheduleId?: string | null }
+): boolean {
+  serverOnly();
+  const { changes } = getDb()
+    .prepare(
+      `UPDATE subscriptions SET
+         status = coalesce(@status, status),
+         schedule_id = coalesce(@scheduleId, schedule_id),
+         updated_at = @at
+       WHERE id = @id`
+    )
+    .run({ id, status: state.status ?? null, scheduleId: state.scheduleId ?? null, at: nowSec() });
+  return changes > 0;
+}
+
+// ——— reads ———
+
+export function findSubscription(id: string): SubscriptionRecord | null {
+  serverOnly();
+  const row = getDb()
+    .prepare(
+      `SELECT id, customer_id AS customerId, account_type AS accountType, plan, status,
+              schedule_id AS scheduleId, rules_version AS rulesVersion
+       FROM subscriptions WHERE id = ?`
+    )
+    .get(id) as
+    | (Omit<SubscriptionRecord, "status" | "scheduleId"> & {
+        status: Stripe.Subscription.Status | null;
+        scheduleId: string | null;
+      })
+    | undefined;
+  return row
+    ? { ...row, status: row.status ?? undefined, scheduleId: row.scheduleId ?? undefined }
+    : null;
+}
+
+export function findCustomer(id: string): CustomerRecord | null {
+  serverOnly();
+  const db = getDb();
+  const row = db.prepare(`SELECT * FROM customers WHERE id = ?`).get(id) as
+    | Record<string, string | null>
+    | undefined;
+  if (!row) return null;
+  const team = db
+    .prepare(`SELECT name, email, role FROM team_members WHERE customer_id = ? ORDER BY position`)
+    .all(id) as Array<{ name: string; email: string; role: string | null }>;
+  return {
+    id,
+    email: row.email ?? undefined,
+    name: row.name ?? undefined,
+    companyName: row.company_name ?? undefined,
+    taxId: row.tax_id ?? undefined,
+    poNumber: row.po_number ?? undefined,
+    collectionMethod: (row.collection_method as CollectionMethod | null) ?? undefined,
+    team: team.map((m) => ({ name: m.name, email: m.email, role: m.role ?? undefined })),
+  };
+}
+
+const propertyRows = (subscriptionId: string) =>
+  getDb()
+    .prepare(`SELECT * FROM properties WHERE subscription_id = ? ORDER BY idx`)
+    .all(subscriptionId) as PropertyRow[];
+
+/** The current addr_rules entries, or null when the subscription isn't in the repository. */
+export function findAddrRules(subscriptionId: string): AddrRuleCompact[] | null {
+  serverOnly();
+  if (!findSubscription(subscriptionId)) return null;
+  return propertyRows(subscriptionId).map((row) => JSON.parse(row.rule) as AddrRuleCompact);
+}
+
+/** Full service addresses in addr_rules order, or null when any of them is unknown. */
+export function findServiceAddresses(subscriptionId: string): ServiceAddressMeta[] | null {
+  serverOnly();
+  if (!findSubscription(subscriptionId)) return null;
+  const rows = propertyRows(subscriptionId);
+  if (rows.some((row) => row.line1 == null)) return null;
+  return rows.map((row) => ({
+    index: row.idx,
+    line1: row.line1 ?? "",
+    line2: row.line2 ?? "",
+    city: row.city,
+    state: row.state ?? "",
+    postal_code: row.postal_code,
+    seasonal_selected: row.seasonal_selected === 1,
+  }));
+}
+
+/** Every addr_rules list the subscription has had, oldest first. */
+export function listRuleSnapshots(subscriptionId: string): RuleSnapshot[] {
+  serverOnly();
+  const rows = getDb()
+    .prepare(
+      `SELECT version, source, rules, created_at FROM rule_snapshots WHERE subscription_id = ? ORDER BY version`
+    )
+    .all(subscriptionId) as Array<{ version: number; source: RuleSnapshotSource; rules: string; created_at: number }>;
+  return rows.map((row) => ({
+    version: row.version,
+    source: row.source,
+    rules: JSON.parse(row.rules) as AddrRuleCompact[],
+    createdAt: row.created_at,
+  }));
+}
+
+// ——— reads with the legacy metadata fallback ———
+
+/** A subscription's addr_rules entries: the repository's, else its metadata chunks. */
+export function readAddrRules(sub: {
+  id: string;
+  metadata?: Record<string, string> | null;
+}): AddrRuleCompact[] {
+  return findAddrRules(sub.id) ?? readAddrRulesFromMeta(sub.metadata ?? undefined);
+}
+
+/** Full service addresses: the repository's, else the customer's metadata chunks. */
+export function readServiceAddresses(
+  subscriptionId: string,
+  customerMeta?: Record<string, string> | null
+): ServiceAddressMeta[] {
+  return findServiceAddresses(subscriptionId) ?? readServiceAddressesFromMeta(customerMeta);
+}
+
+/**
+ * Subscription metadata pointing at rules `version`, clearing the JSON chunks
+ * (`addr_rules`, `addr_mini`) that used to hold the data.
+ */
+export function addrRulesRefMetadata(
+  previous: Record<string, string> | undefined | null,
+  version: number
+): Record<string, string> {
+  return {
+    ...rewriteChunkedMeta(previous, "addr_rules", null),
+    ...rewriteChunkedMeta(previous, "addr_mini", null),
+    addr_rules_v: String(version),
+  };
+}
@@ -0,0 +1,77 @@
+// src/lib/geo/geocoder.ts
+import geocodedAddresses from "../../../config/geocoded-addresses.json";
+import type { Position } from "./polygon";
+
+/**
+ * Offline geocoder stand-in: looks addresses up in config/geocoded-addresses.json
+ * by a normalized key. A real geocoding service can be plugged in with
+ * setGeocoder without touching the resolver.
+ */
+
+export type GeocodeInput = { line1: string; city: string; state: string; zip: string };
+export type Geocoder = (addr: GeocodeInput) => Position | null;
+
+const SUFFIXES: Record<string, string> = {
+  street: "st",
+  avenue: "ave",
+  road: "rd",
+  drive: "dr",
+  lane: "ln",
+  boulevard: "blvd",
+  court: "ct",
+  place: "pl",
+  highway: "hwy",
+  north: "n",
+  south: "s",
+  east: "e",
+  west: "w",
+};
+
+const words = (s: string) =>
+  (s || "")
+    .toLowerCase()
+    .replace(/\./g, "")
+    .replace(/[,#]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((w) => SUFFIXES[w] ?? w)
+    .join(" ");
+
+/** "214 North New River Drive, Surf City, nc 28445-1234" → "214 n new river dr|surf city|nc|28445". */
+export function normalizeAddressKey(addr: GeocodeInput): string {
+  const zip5 = (addr.zip || "").replace(/\D/g, "").slice(0, 5);
+  return [words(addr.line1), words(addr.city), words(addr.state), zip5].join("|");
+}
+
+type Entry = GeocodeInput & { lng: number; lat: number };
+
+const LOCAL_INDEX = new Map<string, Position>(
+  (geocodedAddresses.addresses as Entry[]).map((e) => [
+    normalizeAddressKey(e),
+    [e.lng, e.lat],
+  ])
+);
+
+export type KnownAddress = GeocodeInput & { location: Position };
+
+/** Every address in the offline dataset with its position, e.g. as samples for rule checks. */
+export function knownAddresses(): KnownAddress[] {
+  return (geocodedAddresses.addresses as Entry[]).map(({ lng, lat, ...addr }) => ({
+    ...addr,
+    location: [lng, lat],
+  }));
+}
+
+const localGeocoder: Geocoder = (addr) => LOCAL_INDEX.get(normalizeAddressKey(addr)) ?? null;
+
+const globalForGeo = globalThis as unknown as { geocoder?: Geocoder };
+
+/** Replace the local dataset lookup (e.g. with a cached call to a real service). */
+export function setGeocoder(geocoder: Geocoder) {
+  globalForGeo.geocoder = geocoder;
+}
+
+export function geocodeAddress(addr: GeocodeInput): Position | null {
+  if (!addr.line1?.trim()) return null;
+  return (globalForGeo.geocoder ?? localGeocoder)(addr);
+}
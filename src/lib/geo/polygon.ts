@@ -0,0 +1,105 @@
+// src/lib/geo/polygon.ts
+
+/**
+ * Minimal GeoJSON geometry types and a point-in-polygon test. Positions are
+ * [longitude, latitude] as in the GeoJSON spec; the first ring of a polygon is
+ * its outline and any further rings are holes.
+ */
+
+export type Position = [number, number]; // [lng, lat]
+export type LinearRing = Position[]; // closed: first position == last
+
+export type PolygonGeometry = { type: "Polygon"; coordinates: LinearRing[] };
+export type MultiPolygonGeometry = { type: "MultiPolygon"; coordinates: LinearRing[][] };
+export type AreaGeometry = PolygonGeometry | MultiPolygonGeometry;
+
+// Even-odd ray cast. Points exactly on an edge may fall either way, which is fine
+// at street-address precision.
+function inRing(point: Position, ring: LinearRing): boolean {
+  const [x, y] = point;
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function inPolygon(point: Position, rings: LinearRing[]): boolean {
+  const [outline, ...holes] = rings;
+  if (!outline || !inRing(point, outline)) return false;
+  return !holes.some((h) => inRing(point, h));
+}
+
+export function pointInGeometry(point: Position, geometry: AreaGeometry): boolean {
+  return geometry.type === "Polygon"
+    ? inPolygon(point, geometry.coordinates)
+    : geometry.coordinates.some((rings) => inPolygon(point, rings));
+}
+
+const outlines = (g: AreaGeometry): LinearRing[] =>
+  g.type === "Polygon" ? [g.coordinates[0]] : g.coordinates.map((rings) => rings[0]);
+
+const allRings = (g: AreaGeometry): LinearRing[] =>
+  g.type === "Polygon" ? g.coordinates : g.coordinates.flat();
+
+const cross = (o: Position, a: Position, b: Position) =>
+  (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+// Segments cross at a point inside both; touching or collinear edges don't count.
+function properlyCross(p1: Position, p2: Position, q1: Position, q2: Position): boolean {
+  const d1 = cross(q1, q2, p1);
+  const d2 = cross(q1, q2, p2);
+  const d3 = cross(p1, p2, q1);
+  const d4 = cross(p1, p2, q2);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+const EPS = 1e-9;
+
+function onSegment(p: Position, a: Position, b: Position): boolean {
+  if (Math.abs(cross(a, b, p)) > EPS) return false;
+  return (
+    Math.min(a[0], b[0]) - EPS <= p[0] && p[0] <= Math.max(a[0], b[0]) + EPS &&
+    Math.min(a[1], b[1]) - EPS <= p[1] && p[1] <= Math.max(a[1], b[1]) + EPS
+  );
+}
+
+const edges = (ring: LinearRing) =>
+  ring.slice(1).map((p, i) => [ring[i], p] as const);
+
+const onBoundary = (p: Position, g: AreaGeometry) =>
+  allRings(g).some((ring) => edges(ring).some(([a, b]) => onSegment(p, a, b)));
+
+// Strictly inside: a shared vertex on the border is not.
+const inside = (p: Position, g: AreaGeometry) => !onBoundary(p, g) && pointInGeometry(p, g);
+
+const vertexMean = (ring: LinearRing): Position => {
+  const pts = ring.slice(0, -1);
+  return [
+    pts.reduce((s, p) => s + p[0], 0) / pts.length,
+    pts.reduce((s, p) => s + p[1], 0) / pts.length,
+  ];
+};
+
+/**
+ * Whether two areas share some interior. Zones that only meet along a border
+ * don't overlap. Checks crossing edges, then vertices and ring centres lying
+ * inside the other area, which is enough for hand-drawn service zones.
+ */
+export function geometriesOverlap(a: AreaGeometry, b: AreaGeometry): boolean {
+  const edgesA = allRings(a).flatMap(edges);
+  const edgesB = allRings(b).flatMap(edges);
+  if (edgesA.some(([p1, p2]) => edgesB.some(([q1, q2]) => properlyCross(p1, p2, q1, q2)))) {
+    return true;
+  }
+  const probes = (g: AreaGeometry) =>
+    outlines(g).flatMap((ring) => {
+      const mean = vertexMean(ring);
+      return pointInGeometry(mean, g) ? [...ring, mean] : ring;
+    });
+  return probes(a).some((p) => inside(p, b)) || probes(b).some((p) => inside(p, a));
+}
@@ -0,0 +1,38 @@
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { beforeAll, describe, expect, it } from "vitest";
+import { claimIdempotencyKey } from "./store";
+
+beforeAll(() => {
+  process.env.DATABASE_PATH = path.join(mkdtempSync(path.join(tmpdir(), "idem-")), "test.sqlite");
+});
+
+const claim = (key: string, fingerprint = "fp") =>
+  claimIdempotencyKey({ scope: "signup:individual", key, fingerprint });
+
+describe("claimIdempotencyKey", () => {
+  it("lets one request run and replays its stored result", async () => {
+    const first = await claim("key-replay-1");
+    expect(first.state).toBe("new");
+    expect((await claim("key-replay-1")).state).toBe("in_progress");
+
+    if (first.state === "new") await first.settle({ status: 200, body: { subscriptionId: "sub_1" } });
+    expect(await claim("key-replay-1")).toEqual({
+      state: "replay",
+      result: { status: 200, body: { subscriptionId: "sub_1" } },
+    });
+  });
+
+  it("rejects the same key with a different request", async () => {
+    const first = await claim("key-mismatch-1");
+    if (first.state === "new") await first.settle({ status: 200, body: {} });
+    expect((await claim("key-mismatch-1", "other")).state).toBe("mismatch");
+  });
+
+  it("releases the key when settled without a result", async () => {
+    const first = await claim("key-release-1");
+    if (first.state === "new") await first.settle(null);
+    expect((await claim("key-release-1")).state).toBe("new");
+  });
+});
@@ -0,0 +1,99 @@
+// src/lib/idempotency/store.ts
+import { serverOnly } from "@/lib/validation/server-only";
+import { getDb } from "@/lib/db/db";
+
+/**
+ * Request → response results for client-supplied idempotency keys.
+ *
+ * A key is claimed before the request runs and settled with its response; a
+ * duplicate replays the stored response instead of running again. Claims and
+ * results live in the `idempotency_keys` table of the local database, so they
+ * hold across processes sharing the file and across restarts. Results are kept
+ * for IDEMPOTENCY_TTL_SEC, outliving Stripe's own 24-hour key window.
+ */
+
+export const IDEMPOTENCY_TTL_SEC = 7 * 24 * 3600;
+// A claim never settled (its process died mid-request) is released after this.
+export const IDEMPOTENCY_CLAIM_TIMEOUT_SEC = 10 * 60;
+
+// Printable ASCII, like Stripe's keys (UUIDs fit comfortably)
+const KEY_RE = /^[\x21-\x7e]{8,255}$/;
+
+export type IdempotentResult = { status: number; body: unknown };
+
+type Row = {
+  fingerprint: string;
+  status: number | null;
+  body: string | null;
+};
+
+export type IdempotencyClaim =
+  | { state: "new"; settle: (result: IdempotentResult | null) => Promise<void> }
+  | { state: "replay"; result: IdempotentResult }
+  | { state: "in_progress" }
+  | { state: "mismatch" };
+
+/** Why a header value can't be used as a key, or null when it's fine. */
+export function idempotencyKeyError(key: string): string | null {
+  return KEY_RE.test(key)
+    ? null
+    : "Idempotency-Key must be 8–255 printable characters (a UUID works)";
+}
+
+const nowSec = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Claim `key` within `scope` for a request with this fingerprint. A "new" claim
+ * must be settled: with the response to store it for replay, or with null to
+ * release the key so a retry runs again (e.g. after a 5xx).
+ */
+export async function claimIdempotencyKey(opts: {
+  scope: string;
+  key: string;
+  fingerprint: string;
+}): Promise<IdempotencyClaim> {
+  serverOnly();
+  const { scope, key, fingerprint } = opts;
+  const db = getDb();
+  const now = nowSec();
+
+  const claimed = db.transaction((): IdempotencyClaim | null => {
+    // Expired results and abandoned claims free their keys
+    db.prepare(
+      `DELETE FROM idempotency_keys
+       WHERE settled_at < ? OR (settled_at IS NULL AND claimed_at < ?)`
+    ).run(now - IDEMPOTENCY_TTL_SEC, now - IDEMPOTENCY_CLAIM_TIMEOUT_SEC);
+
+    // The primary key lets exactly one request insert the claim
+    const inserted = db
+      .prepare(
+        `INSERT INTO idempotency_keys (scope, key, fingerprint, claimed_at)
+         VALUES (?, ?, ?, ?) ON CONFLICT (scope, key) DO NOTHING`
+      )
+      .run(scope, key, fingerprint, now);
+    if (inserted.changes) return null;
+
+    const row = db
+      .prepare(`SELECT fingerprint, status, body FROM idempotency_keys WHERE scope = ? AND key = ?`)
+      .get(scope, key) as Row;
+    if (row.fingerprint !== fingerprint) return { state: "mismatch" };
+    if (row.status == null) return { state: "in_progress" };
+    return { state: "replay", result: { status: row.status, body: JSON.parse(row.body ?? "null") } };
+  })();
+  if (claimed) return claimed;
+
+  // Settling only touches this claim, not one made after it timed out
+  const mine = `scope = ? AND key = ? AND claimed_at = ? AND settled_at IS NULL`;
+  return {
+    state: "new",
+    settle: async (result) => {
+      if (!result) {
+        db.prepare(`DELETE FROM idempotency_keys WHERE ${mine}`).run(scope, key, now);
+        return;
+      }
+      db.prepare(
+        `UPDATE idempotency_keys SET status = ?, body = ?, settled_at = ? WHERE ${mine}`
+      ).run(result.status, JSON.stringify(result.body), nowSec(), scope, key, now);
+    },
+  };
+}
@@ -0,0 +1,33 @@
+// src/lib/mail/mailer.ts
+import nodemailer, { type Transporter } from "nodemailer";
+import { serverOnly } from "@/lib/validation/server-only";
+import { mailConfig } from "@/lib/env/env.server";
+
+export type MailMessage = {
+  to: string[];
+  subject: string;
+  text: string;
+};
+
+// Survive dev-server module reloads, like the Stripe client does.
+const globalForMail = globalThis as unknown as {
+  mailTransport?: { url: string; transport: Transporter };
+};
+
+export function hasMailer(): boolean {
+  return !!process.env.SMTP_URL;
+}
+
+/** Send one message over SMTP_URL. Throws when mail is not configured or the server refuses it. */
+export async function sendMail(message: MailMessage): Promise<void> {
+  serverOnly();
+  const config = mailConfig();
+  if (!config) throw new Error("Missing SMTP_URL");
+  if (globalForMail.mailTransport?.url !== config.smtpUrl) {
+    globalForMail.mailTransport = {
+      url: config.smtpUrl,
+      transport: nodemailer.createTransport(config.smtpUrl),
+    };
+  }
+  await globalForMail.mailTransport.transport.sendMail({ from: config.from, ...message });
+}
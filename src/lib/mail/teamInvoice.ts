@@ -0,0 +1,74 @@
+// src/lib/mail/teamInvoice.ts
+import type Stripe from "stripe";
+import { serverOnly } from "@/lib/validation/server-only";
+import { findCustomer } from "@/lib/db/repository";
+import { asStr } from "@/lib/util/strings";
+import { hasMailer, sendMail } from "./mailer";
+
+/**
+ * Copies of a business's invoices for its team members.
+ *
+ * Stripe only emails the customer's own address (the billing contact), so once
+ * an invoiced business's invoice is finalized the webhook mails its hosted link
+ * to everyone on the team stored at signup, in one message.
+ */
+
+const money = (cents: number, currency: string) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: currency.toUpperCase() }).format(
+    cents / 100
+  );
+
+const day = (epoch: number) =>
+  new Date(epoch * 1000).toLocaleDateString("en-US", { dateStyle: "long", timeZone: "UTC" });
+
+export function teamInvoiceMessage(
+  invoice: Pick<Stripe.Invoice, "number" | "amount_due" | "currency" | "due_date" | "hosted_invoice_url">,
+  customer: { companyName?: string; name?: string },
+  to: string[]
+) {
+  const company = customer.companyName ?? customer.name ?? "your account";
+  const label = invoice.number ? `Invoice ${invoice.number}` : "A new invoice";
+  return {
+    to,
+    subject: `${label} for ${company}`,
+    text: [
+      `${label} for ${company} is ready.`,
+      "",
+      `Amount due: ${money(invoice.amount_due, invoice.currency)}`,
+      ...(invoice.due_date ? [`Due: ${day(invoice.due_date)}`] : []),
+      "",
+      `View and pay it here: ${invoice.hosted_invoice_url}`,
+      "",
+      "You are receiving this because you are listed as a team member on this account.",
+    ].join("\n"),
+  };
+}
+
+/**
+ * Mail a finalized net-terms invoice to a business customer's team. Returns how
+ * many people it went to; 0 for card-billed invoices, individuals and customers
+ * the repository doesn't hold (made in the Dashboard, or before the database).
+ * Throws only when the mail server fails, so the webhook answers 500 and Stripe
+ * retries.
+ */
+export async function emailInvoiceToTeam(invoice: Stripe.Invoice): Promise<number> {
+  serverOnly();
+  const customerId = asStr(invoice.customer);
+  if (invoice.collection_method !== "send_invoice") return 0;
+  if (!invoice.hosted_invoice_url || !customerId) return 0;
+
+  const customer = findCustomer(customerId);
+  if (!customer?.companyName) return 0; // not recorded, or not a business
+  const to = (customer.team ?? [])
+    .map((m) => m.email)
+    .filter((email) => email && email !== customer.email);
+  if (!to.length) return 0;
+
+  if (!hasMailer()) {
+    console.error("[mail] SMTP_URL is unset; invoice", invoice.id, "not sent to team:", to.join(", "));
+    return 0;
+  }
+  await sendMail(teamInvoiceMessage(invoice, customer, to));
+  console.log("[mail] invoice", invoice.id, "sent to", to.length, "team member(s)");
+  return to.length;
+}
@@ -0,0 +1,123 @@
+// Recurring annual seasons (month/day ranges) and their expansion into concrete windows.
+// Dates are calendar days in the service timezone: a season starts at local midnight.
+import { serviceTimeZone, zonedMidnightEpoch, zonedParts } from "../date/zoned";
+
+export type MonthDay = {
+  month: number; // 1–12
+  day: number; // 1–31
+};
+
+// Repeats every year. `end` is exclusive; an end on or before the start wraps over New Year.
+export type RecurringSeason = {
+  start: MonthDay;
+  end: MonthDay;
+};
+
+export type SeasonWindow = { start: number; end: number }; // epoch seconds
+
+// How far ahead recurring seasons are expanded into concrete windows for a schedule.
+export const SEASON_HORIZON_SEC = 365 * 24 * 60 * 60;
+
+const MONTH_NAMES = [
+  "Jan", "Feb", "Mar", "Apr", "May", "Jun",
+  "Jul", "Aug", "Sep", "Oct", "Nov", "Dec",
+] as const;
+
+const monthDayEpoch = (year: number, md: MonthDay, timeZone: string) =>
+  zonedMidnightEpoch(year, md.month - 1, md.day, timeZone);
+
+const localYear = (epoch: number, timeZone: string) => zonedParts(epoch, timeZone).year;
+
+const wrapsNewYear = (s: RecurringSeason) =>
+  s.end.month < s.start.month ||
+  (s.end.month === s.start.month && s.end.day <= s.start.day);
+
+/** The occurrence of a season that starts in `year`. */
+export function seasonOccurrence(
+  season: RecurringSeason,
+  year: number,
+  timeZone = serviceTimeZone()
+): SeasonWindow {
+  return {
+    start: monthDayEpoch(year, season.start, timeZone),
+    end: monthDayEpoch(wrapsNewYear(season) ? year + 1 : year, season.end, timeZone),
+  };
+}
+
+/** All occurrences that overlap [fromEpoch, toEpoch). */
+export function seasonWindowsBetween(
+  season: RecurringSeason,
+  fromEpoch: number,
+  toEpoch: number,
+  timeZone = serviceTimeZone()
+): SeasonWindow[] {
+  const fromYear = localYear(fromEpoch, timeZone);
+  const toYear = localYear(toEpoch, timeZone);
+  const out: SeasonWindow[] = [];
+  // Start one year early so a wrapping season that began last year is included.
+  for (let y = fromYear - 1; y <= toYear; y++) {
+    const w = seasonOccurrence(season, y, timeZone);
+    if (w.end > fromEpoch && w.start < toEpoch) out.push(w);
+  }
+  return out;
+}
+
+/** The occurrence in progress at `refEpoch`, or the next one to start. */
+export function currentOrNextSeasonWindow(
+  season: RecurringSeason,
+  refEpoch: number,
+  timeZone = serviceTimeZone()
+): SeasonWindow {
+  const year = localYear(refEpoch, timeZone);
+  for (let y = year - 1; y <= year + 1; y++) {
+    const w = seasonOccurrence(season, y, timeZone);
+    if (w.end > refEpoch) return w;
+  }
+  // Unreachable for valid month/day input; keep the compiler honest.
+  return seasonOccurrence(season, year + 1, timeZone);
+}
+
+/**
+ * Concrete windows for a set of seasons over [fromEpoch, toEpoch), sorted and
+ * with overlapping/touching occurrences merged so each instant counts once.
+ */
+export function seasonsWindowsBetween(
+  seasons: RecurringSeason[],
+  fromEpoch: number,
+  toEpoch: number,
+  timeZone = serviceTimeZone()
+): SeasonWindow[] {
+  const all = seasons
+    .flatMap((s) => seasonWindowsBetween(s, fromEpoch, toEpoch, timeZone))
+    .sort((a, b) => a.start - b.start);
+  const merged: SeasonWindow[] = [];
+  for (const w of all) {
+    const last = merged[merged.length - 1];
+    if (last && w.start <= last.end) last.end = Math.max(last.end, w.end);
+    else merged.push({ ...w });
+  }
+  return merged;
+}
+
+/** Earliest occurrence across several seasons that is in progress at, or after, `refEpoch`. */
+export function currentOrNextSeasonsWindow(
+  seasons: RecurringSeason[],
+  refEpoch: number,
+  timeZone = serviceTimeZone()
+): SeasonWindow | null {
+  let best: SeasonWindow | null = null;
+  for (const s of seasons) {
+    const w = currentOrNextSeasonWindow(s, refEpoch, timeZone);
+    if (!best || w.start < best.start) best = w;
+  }
+  return best;
+}
+
+export const formatMonthDay = (md: MonthDay) =>
+  `${MONTH_NAMES[md.month - 1] ?? "?"} ${md.day}`;
+
+export const formatSeason = (s: RecurringSeason) =>
+  `${formatMonthDay(s.start)} – ${formatMonthDay(s.end)}`;
+
+export const formatSeasons = (seasons: RecurringSeason[]) =>
+  seasons.map(formatSeason).join(", ");
@@ -1,6 +1,7 @@
 import { resolveRuleForAddress, type Address } from "../serviceAreas/serviceAreas";
+import { SEASON_HORIZON_SEC, seasonsWindowsBetween } from "./recurring";
 
-// Derive season windows for an address (currently global; can be per-service-area later).
+// Derive season windows for an address from its service-area rule.
 
 export function seasonWindowsForAddress(
   addr: Record<string, unknown>,
@@ -14,15 +15,8 @@ export function seasonWindowsForAddress(
     zip: String(addr.postalCode ?? addr.zip ?? ""),
   };
   const rule = resolveRuleForAddress(address);
-  if (!rule || !rule.season) return [];
-  const { startUTC, endUTC } = rule.season;
-  
-  // Return the season window if it hasn't ended yet (includes current and future windows)
-  if (refEpoch < endUTC) {
-    return [{ start: startUTC, end: endUTC }];
-  }
-  
-  // Season has already ended - could roll forward for recurring seasons
-  // For now, return empty array for past seasons
-  return [];
-}
\ No newline at end of file
+  if (!rule || !rule.seasons?.length) return [];
+
+  // Seasons recur yearly: return every window in progress at, or starting within a year of, refEpoch.
+  return seasonsWindowsBetween(rule.seasons, refEpoch, refEpoch + SEASON_HORIZON_SEC);
+}
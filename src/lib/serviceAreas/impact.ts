@@ -0,0 +1,116 @@
+// src/lib/serviceAreas/impact.ts
+import type Stripe from "stripe";
+import type { AddrRuleCompact } from "@/lib/stripe/phaseBuilder";
+import { readAddrRules } from "@/lib/db/repository";
+import { SEASON_HORIZON_SEC, seasonsWindowsBetween } from "@/lib/season/recurring";
+import { resolveRuleForAddress, type AreaRule } from "./serviceAreas";
+
+/**
+ * "What would change" preview for a proposed rule set: re-resolves every live
+ * subscription's addr_rules entries and reports the ones whose stored pickup days
+ * or upcoming seasonal windows no longer match.
+ */
+
+export type AddressImpact = {
+  index: number;
+  city: string;
+  zip: string;
+  reasons: string[];
+};
+
+export type SubscriptionImpact = {
+  subscriptionId: string;
+  customerId: string;
+  addresses: AddressImpact[];
+};
+
+const LIVE_STATUSES = new Set(["active", "trialing", "past_due", "unpaid", "incomplete"]);
+const DAY = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const dayName = (d: number) => (d >= 0 ? DAY[d] ?? String(d) : "none");
+
+type Window = { start: number; end: number };
+
+const clip = (ws: Window[], from: number, to: number) =>
+  ws
+    .map((w) => ({ start: Math.max(w.start, from), end: Math.min(w.end, to) }))
+    .filter((w) => w.end > w.start);
+
+/** Why one stored addr_rules entry would resolve differently under `rules` (empty = unchanged). */
+export function addrRuleChanges(
+  entry: AddrRuleCompact,
+  rules: AreaRule[],
+  nowEpoch: number
+): string[] {
+  const next = resolveRuleForAddress(
+    {
+      line1: "",
+      city: entry.c ?? "",
+      state: entry.st ?? "",
+      zip: entry.z ?? "",
+      location: entry.g,
+    },
+    rules
+  );
+  if (!next) return ["no longer inside a service area"];
+
+  const reasons: string[] = [];
+  if (next.baseDay !== entry.b) {
+    reasons.push(`base day ${dayName(entry.b)} → ${dayName(next.baseDay)}`);
+  }
+  const nextSecondary = next.secondaryDay ?? -1;
+  if (nextSecondary !== entry.s) {
+    reasons.push(`2nd day ${dayName(entry.s)} → ${dayName(nextSecondary)}`);
+  }
+
+  // Stored windows were expanded at signup; compare only the part still ahead of us.
+  const stored = entry.w.map(([start, end]) => ({ start, end }));
+  const to = stored.length
+    ? Math.max(...stored.map((w) => w.end))
+    : nowEpoch + SEASON_HORIZON_SEC;
+  const before = clip(stored, nowEpoch, to);
+  const after = clip(seasonsWindowsBetween(next.seasons ?? [], nowEpoch, to), nowEpoch, to);
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    reasons.push("seasonal windows change");
+  }
+  return reasons;
+}
+
+/** Scan live subscriptions and list those whose addr_rules would resolve differently. */
+export async function previewRuleImpact(
+  rules: AreaRule[],
+  stripe: Stripe,
+  opts?: { maxSubscriptions?: number; nowEpoch?: number }
+): Promise<{ scanned: number; truncated: boolean; affected: SubscriptionImpact[] }> {
+  const max = opts?.maxSubscriptions ?? 1000;
+  const nowEpoch = opts?.nowEpoch ?? Math.floor(Date.now() / 1000);
+  const affected: SubscriptionImpact[] = [];
+  let scanned = 0;
+  let truncated = false;
+
+  for await (const sub of stripe.subscriptions.list({ status: "all", limit: 100 })) {
+    if (!LIVE_STATUSES.has(sub.status)) continue;
+    if (scanned >= max) {
+      truncated = true;
+      break;
+    }
+    scanned++;
+
+    const entries = readAddrRules(sub);
+    const addresses: AddressImpact[] = [];
+    entries.forEach((entry, index) => {
+      const reasons = addrRuleChanges(entry, rules, nowEpoch);
+      if (reasons.length) {
+        addresses.push({ index, city: entry.c, zip: entry.z, reasons });
+      }
+    });
+    if (addresses.length) {
+      affected.push({
+        subscriptionId: sub.id,
+        customerId: typeof sub.customer === "string" ? sub.customer : sub.customer.id,
+        addresses,
+      });
+    }
+  }
+
+  return { scanned, truncated, affected };
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import type { AreaGeometry } from "../geo/polygon";
+import type { KnownAddress } from "../geo/geocoder";
+import { lintAreaRules } from "./lint";
+import type { AreaRule } from "./serviceAreas";
+
+const square = (x: number, y: number, size = 1): AreaGeometry => ({
+  type: "Polygon",
+  coordinates: [
+    [
+      [x, y],
+      [x + size, y],
+      [x + size, y + size],
+      [x, y + size],
+      [x, y],
+    ],
+  ],
+});
+
+const rule = (id: string, over: Partial<AreaRule>): AreaRule => ({ id, baseDay: 1, ...over });
+
+const sample = (line1: string, city: string, zip: string, location: [number, number]): KnownAddress => ({
+  line1,
+  city,
+  state: "NC",
+  zip,
+  location,
+});
+
+const codes = (rules: AreaRule[], samples: KnownAddress[] = []) =>
+  lintAreaRules(rules, samples).map((i) => [i.code, i.severity, i.ruleIds]);
+
+describe("overlapping areas", () => {
+  it("is an error when the winner depends on list order", () => {
+    expect(
+      codes([rule("a", { area: square(0, 0, 2) }), rule("b", { area: square(1, 1, 2), baseDay: 2 })])
+    ).toEqual([["overlapping-areas", "error", ["a", "b"]]]);
+  });
+
+  it("catches a zone drawn entirely inside another, and identical zones", () => {
+    expect(
+      codes([rule("a", { area: square(0, 0, 4) }), rule("b", { area: square(1, 1), baseDay: 2 })])
+    ).toHaveLength(1);
+    expect(
+      codes([rule("a", { area: square(0, 0) }), rule("b", { area: square(0, 0), baseDay: 2 })])
+    ).toHaveLength(1);
+  });
+
+  it("ignores zones that only share a border, or share the pickup days", () => {
+    expect(
+      codes([rule("a", { area: square(0, 0) }), rule("b", { area: square(1, 0), baseDay: 2 })])
+    ).toEqual([]);
+    expect(codes([rule("a", { area: square(0, 0, 2) }), rule("b", { area: square(1, 1, 2) })])).toEqual([]);
+  });
+
+  it("is a warning when a state-scoped zone decides it", () => {
+    expect(
+      codes([rule("a", { area: square(0, 0, 2) }), rule("b", { area: square(1, 1, 2), baseDay: 2, state: "NC" })])
+    ).toEqual([["overlapping-areas", "warning", ["a", "b"]]]);
+  });
+});
+
+describe("areas shadowing city and zip rules", () => {
+  const rules = [
+    rule("zone", { area: square(0, 0), baseDay: 3 }),
+    rule("town", { city: "Surf City" }),
+    rule("zip", { zipPrefix: "284" }),
+  ];
+
+  it("flags the city or zip rule a sample inside the zone would otherwise follow", () => {
+    expect(
+      codes(rules, [
+        sample("1 Main St", "Surf City", "28445", [0.5, 0.5]),
+        sample("2 Main St", "Hampstead", "28443", [0.2, 0.2]),
+        sample("3 Main St", "Surf City", "28445", [5, 5]), // outside the zone
+      ])
+    ).toEqual([
+      ["area-shadows-city", "warning", ["zone", "town"]],
+      ["area-shadows-zip-prefix", "warning", ["zone", "zip"]],
+    ]);
+  });
+
+  it("stays quiet when the days agree or no sample falls inside", () => {
+    const same = rules.map((r) => ({ ...r, baseDay: 3 as const }));
+    expect(codes(same, [sample("1 Main St", "Surf City", "28445", [0.5, 0.5])])).toEqual([]);
+    expect(codes(rules, [sample("1 Main St", "Surf City", "28445", [5, 5])])).toEqual([]);
+  });
+});
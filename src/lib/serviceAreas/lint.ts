@@ -0,0 +1,237 @@
+// src/lib/serviceAreas/lint.ts
+import { geometriesOverlap } from "../geo/polygon";
+import { knownAddresses, type KnownAddress } from "../geo/geocoder";
+import { resolveRuleForAddress, type AreaRule } from "./serviceAreas";
+
+/**
+ * Static checks for a rule set. The schema guarantees each rule is well-formed;
+ * this looks for rules that are valid on their own but ambiguous or contradictory
+ * together, given how resolveRuleForAddress picks a winner (area polygons first,
+ * then city, then the longest zip prefix, with ties falling to list order). Rules scoped to different
+ * states never compete, so they are not compared.
+ *
+ * City and ZIP rules have no shape, so what an area polygon takes from them is
+ * judged on sample addresses: by default every address the offline geocoder knows.
+ */
+
+export type LintSeverity = "error" | "warning";
+
+export type LintIssue = {
+  code:
+    | "overlapping-areas"
+    | "area-shadows-city"
+    | "area-shadows-zip-prefix"
+    | "duplicate-city"
+    | "duplicate-zip-prefix"
+    | "overlapping-zip-prefix"
+    | "city-shadows-zip-prefix"
+    | "empty-season"
+    | "secondary-without-season"
+    | "season-without-secondary"
+    | "secondary-equals-base";
+  severity: LintSeverity;
+  ruleIds: string[];
+  message: string;
+  suggestion?: string;
+};
+
+const norm = (s: string) => s.trim().toLowerCase();
+
+const sameDays = (a: AreaRule, b: AreaRule) =>
+  a.baseDay === b.baseDay && (a.secondaryDay ?? -1) === (b.secondaryDay ?? -1);
+
+const overlaps = (p: string, q: string) => p.startsWith(q) || q.startsWith(p);
+
+// Two rules can match the same address unless both are scoped to different states.
+const sameScope = (a: AreaRule, b: AreaRule) =>
+  !a.state || !b.state || a.state === b.state;
+
+const where = (r: AreaRule) => (r.state ? `${r.city}, ${r.state}` : r.city);
+
+export function lintAreaRules(
+  all: AreaRule[],
+  samples: KnownAddress[] = knownAddresses()
+): LintIssue[] {
+  const rules = all.filter((r) => !r.retiredAt);
+  const issues: LintIssue[] = [];
+
+  // Area polygons: where two overlap, the first in the list wins (a state-scoped
+  // one beats an unscoped one), so different days there depend on list order.
+  const withArea = rules.filter((r) => r.area);
+  for (let i = 0; i < withArea.length; i++) {
+    for (let j = i + 1; j < withArea.length; j++) {
+      const a = withArea[i];
+      const b = withArea[j];
+      if (!sameScope(a, b) || sameDays(a, b) || !geometriesOverlap(a.area!, b.area!)) continue;
+      const byListOrder = (a.state ?? "") === (b.state ?? "");
+      const winner = byListOrder || a.state ? a : b;
+      const loser = winner === a ? b : a;
+      issues.push({
+        code: "overlapping-areas",
+        severity: byListOrder ? "error" : "warning",
+        ruleIds: [a.id, b.id],
+        message: byListOrder
+          ? `Areas of "${a.id}" and "${b.id}" overlap with different pickup days; "${a.id}" wins there only because it is listed first`
+          : `Area of "${winner.id}" (${winner.state}) overrides the overlapping area of "${loser.id}" with different pickup days`,
+        suggestion: `Redraw the polygons so they only share a border, or align their pickup days`,
+      });
+    }
+  }
+
+  // An area polygon silently takes addresses from the city or zip rule they would
+  // otherwise match. Flag it where that rule has different pickup days.
+  if (withArea.length) {
+    const withoutAreas = rules.map((r) => (r.area ? { ...r, area: undefined } : r));
+    const shadowed = new Map<string, { area: AreaRule; other: AreaRule; by: string; lines: string[] }>();
+    for (const addr of samples) {
+      const inArea = resolveRuleForAddress(addr, withArea);
+      if (!inArea) continue;
+      const fallback = resolveRuleForAddress(addr, withoutAreas);
+      const area = withArea.find((r) => r.id === inArea.matchedBy.ruleId)!;
+      const other = fallback && rules.find((r) => r.id === fallback.matchedBy.ruleId);
+      if (!other || other.id === area.id || sameDays(area, other)) continue;
+      const key = `${area.id}|${other.id}`;
+      const entry = shadowed.get(key) ?? { area, other, by: fallback!.matchedBy.by, lines: [] };
+      entry.lines.push(addr.line1);
+      shadowed.set(key, entry);
+    }
+    for (const { area, other, by, lines } of shadowed.values()) {
+      const what = by === "city" ? `city rule "${other.id}" (${where(other)})` : `zip rule "${other.id}" (${other.zipPrefix})`;
+      issues.push({
+        code: by === "city" ? "area-shadows-city" : "area-shadows-zip-prefix",
+        severity: "warning",
+        ruleIds: [area.id, other.id],
+        message: `Area of "${area.id}" takes ${lines.length} known address(es) from ${what}, which has different pickup days, e.g. ${lines[0]}`,
+        suggestion: `Confirm those addresses should follow "${area.id}", or redraw its polygon`,
+      });
+    }
+  }
+
+  // City collisions: only the first rule in the list is ever used.
+  const byCity = new Map<string, AreaRule[]>();
+  for (const r of rules) {
+    if (!r.city) continue;
+    const key = `${r.state ?? ""}|${norm(r.city)}`;
+    byCity.set(key, [...(byCity.get(key) ?? []), r]);
+  }
+  for (const group of byCity.values()) {
+    if (group.length < 2) continue;
+    issues.push({
+      code: "duplicate-city",
+      severity: "error",
+      ruleIds: group.map((r) => r.id),
+      message: `City "${where(group[0])}" is defined by ${group.length} rules; only "${group[0].id}" is ever matched`,
+      suggestion: `Merge them into "${group[0].id}" or retire ${group
+        .slice(1)
+        .map((r) => `"${r.id}"`)
+        .join(", ")}`,
+    });
+  }
+
+  // Zip prefixes: identical ones tie on length; nested ones with different days
+  // mean the longer prefix silently carves an exception out of the shorter one.
+  const withPrefix = rules.filter((r) => r.zipPrefix);
+  for (let i = 0; i < withPrefix.length; i++) {
+    for (let j = i + 1; j < withPrefix.length; j++) {
+      const a = withPrefix[i];
+      const b = withPrefix[j];
+      const pa = a.zipPrefix!;
+      const pb = b.zipPrefix!;
+      if (!sameScope(a, b)) continue;
+      if (pa === pb && a.state === b.state) {
+        issues.push({
+          code: "duplicate-zip-prefix",
+          severity: "error",
+          ruleIds: [a.id, b.id],
+          message: `Zip prefix "${pa}" is used by "${a.id}" and "${b.id}"; the winner depends on list order`,
+          suggestion: sameDays(a, b)
+            ? `Retire "${b.id}"; it duplicates "${a.id}"`
+            : `Lengthen one prefix or retire one of the rules`,
+        });
+      } else if (overlaps(pa, pb) && !sameDays(a, b)) {
+        // Equal lengths here means one is state-scoped, and that one wins.
+        const [short, long] =
+          pa.length < pb.length || (pa.length === pb.length && b.state) ? [a, b] : [b, a];
+        issues.push({
+          code: "overlapping-zip-prefix",
+          severity: "warning",
+          ruleIds: [short.id, long.id],
+          message: `"${long.id}" (${long.zipPrefix}) overrides "${short.id}" (${short.zipPrefix}) with different pickup days`,
+          suggestion: `Confirm ZIPs starting with ${long.zipPrefix} should not follow "${short.id}"`,
+        });
+      }
+    }
+  }
+
+  // A city rule always beats a zip rule, even a more specific one for the same ZIPs.
+  for (const c of rules) {
+    if (!c.city || !c.zipPrefix) continue;
+    for (const z of withPrefix) {
+      if (z === c || z.city || !sameScope(c, z)) continue;
+      if (overlaps(c.zipPrefix, z.zipPrefix!) && !sameDays(c, z)) {
+        issues.push({
+          code: "city-shadows-zip-prefix",
+          severity: "warning",
+          ruleIds: [c.id, z.id],
+          message: `Addresses in ${where(c)} match "${c.id}" before zip rule "${z.id}" (${z.zipPrefix}), which has different pickup days`,
+          suggestion: `Align the pickup days, or drop the city from "${c.id}" and rely on zip prefixes`,
+        });
+      }
+    }
+  }
+
+  for (const r of rules) {
+    const seasons = r.seasons ?? [];
+    seasons.forEach((s, i) => {
+      if (s.start.month === s.end.month && s.start.day === s.end.day) {
+        issues.push({
+          code: "empty-season",
+          severity: "error",
+          ruleIds: [r.id],
+          message: `Season ${i + 1} of "${r.id}" starts and ends on the same day`,
+          suggestion: "Set an end date after the start date",
+        });
+      }
+    });
+    if (r.secondaryDay != null && seasons.length === 0) {
+      issues.push({
+        code: "secondary-without-season",
+        severity: "warning",
+        ruleIds: [r.id],
+        message: `"${r.id}" has a 2nd pickup day but no season, so it is never billed`,
+        suggestion: "Add a season or remove secondaryDay",
+      });
+    }
+    if (seasons.length > 0 && r.secondaryDay == null) {
+      issues.push({
+        code: "season-without-secondary",
+        severity: "warning",
+        ruleIds: [r.id],
+        message: `"${r.id}" has a season but no 2nd pickup day to run during it`,
+        suggestion: "Set secondaryDay or remove the seasons",
+      });
+    }
+    if (r.secondaryDay != null && r.secondaryDay === r.baseDay) {
+      issues.push({
+        code: "secondary-equals-base",
+        severity: "warning",
+        ruleIds: [r.id],
+        message: `"${r.id}" has the same base and 2nd pickup day`,
+        suggestion: "Pick a different secondaryDay",
+      });
+    }
+  }
+
+  return issues;
+}
+
+export const lintErrors = (issues: LintIssue[]) =>
+  issues.filter((i) => i.severity === "error");
+
+/** One line per issue, for logs and the CLI. */
+export function formatLintIssue(i: LintIssue): string {
+  const tag = i.severity === "error" ? "ERROR" : "warn ";
+  return `${tag} ${i.code} [${i.ruleIds.join(", ")}] ${i.message}${
+    i.suggestion ? `\n      fix: ${i.suggestion}` : ""
+  }`;
+}
@@ -0,0 +1,200 @@
+// src/lib/serviceAreas/revisions.ts
+import { appendFile, mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { serverOnly } from "@/lib/validation/server-only";
+import { dataDir } from "@/lib/env/env.server";
+import type { AreaRule } from "./serviceAreas";
+import { AreaRulesFileSchema } from "./serviceAreas.schema";
+import {
+  areaRulesFilePath,
+  getAreaRuleSet,
+  invalidateAreaRules,
+} from "./store";
+
+/**
+ * Versioned changes to the service-area rule file.
+ *
+ * Every accepted change bumps the file's `version`, rewrites the file atomically
+ * (the store hot-reloads it), and appends a revision with author, timestamp, the
+ * per-rule diff and a snapshot of the resulting rules to a JSONL log in DATA_DIR.
+ */
+
+export type RuleChangeAction = "create" | "update" | "retire";
+
+export type FieldChange = { field: string; before: unknown; after: unknown };
+
+export type RuleDiff = {
+  ruleId: string;
+  change: "added" | "removed" | "modified";
+  fields: FieldChange[];
+};
+
+export type AreaRuleRevision = {
+  version: number;
+  author: string;
+  at: string; // ISO timestamp
+  action: RuleChangeAction;
+  ruleId: string;
+  diff: RuleDiff[];
+  rules: AreaRule[];
+};
+
+export type ProposedChange =
+  | { ok: true; rules: AreaRule[] }
+  | { ok: false; status: 404 | 409; error: string };
+
+export type CommitResult =
+  | { ok: true; revision: AreaRuleRevision }
+  | { ok: false; status: 409; error: string };
+
+const revisionsFile = () =>
+  path.resolve(process.cwd(), dataDir(), "service-area-revisions.jsonl");
+
+// ——— pure helpers ———
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+function diffRule(before: AreaRule, after: AreaRule): FieldChange[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const fields: FieldChange[] = [];
+  for (const k of keys) {
+    const b = (before as Record<string, unknown>)[k];
+    const a = (after as Record<string, unknown>)[k];
+    if (!same(b, a)) fields.push({ field: k, before: b ?? null, after: a ?? null });
+  }
+  return fields;
+}
+
+/** Per-rule differences between two rule lists, keyed by rule id. */
+export function diffRuleSets(prev: AreaRule[], next: AreaRule[]): RuleDiff[] {
+  const prevById = new Map(prev.map((r) => [r.id, r]));
+  const nextById = new Map(next.map((r) => [r.id, r]));
+  const out: RuleDiff[] = [];
+  for (const r of next) {
+    const old = prevById.get(r.id);
+    if (!old) {
+      out.push({ ruleId: r.id, change: "added", fields: diffRule({} as AreaRule, r) });
+    } else {
+      const fields = diffRule(old, r);
+      if (fields.length) out.push({ ruleId: r.id, change: "modified", fields });
+    }
+  }
+  for (const r of prev) {
+    if (!nextById.has(r.id)) {
+      out.push({ ruleId: r.id, change: "removed", fields: diffRule(r, {} as AreaRule) });
+    }
+  }
+  return out;
+}
+
+export function proposeCreate(rules: AreaRule[], rule: AreaRule): ProposedChange {
+  if (rules.some((r) => r.id === rule.id)) {
+    return { ok: false, status: 409, error: `Rule "${rule.id}" already exists` };
+  }
+  return { ok: true, rules: [...rules, rule] };
+}
+
+export function proposeUpdate(
+  rules: AreaRule[],
+  id: string,
+  patch: Record<string, unknown> // validated as part of the whole file on commit
+): ProposedChange {
+  const idx = rules.findIndex((r) => r.id === id);
+  if (idx < 0) return { ok: false, status: 404, error: `Rule "${id}" not found` };
+  const merged = { ...rules[idx], ...patch, id } as AreaRule;
+  // `null` in a patch clears an optional field
+  for (const [k, v] of Object.entries(patch)) {
+    if (v === null) delete (merged as Record<string, unknown>)[k];
+  }
+  return { ok: true, rules: rules.map((r, i) => (i === idx ? merged : r)) };
+}
+
+export function proposeRetire(rules: AreaRule[], id: string, at: string): ProposedChange {
+  const rule = rules.find((r) => r.id === id);
+  if (!rule) return { ok: false, status: 404, error: `Rule "${id}" not found` };
+  if (rule.retiredAt) {
+    return { ok: false, status: 409, error: `Rule "${id}" is already retired` };
+  }
+  return {
+    ok: true,
+    rules: rules.map((r) => (r.id === id ? { ...r, retiredAt: at } : r)),
+  };
+}
+
+// ——— persistence ———
+
+// Serialize writers within this process so versions stay strictly increasing.
+let writeChain: Promise<unknown> = Promise.resolve();
+
+/**
+ * Validate and persist a new rule list as the next version, if the file is still
+ * at `baseVersion` (the version the list was derived from). Otherwise nothing is
+ * written and the result is a 409: the change would drop whatever was committed
+ * in between. Throws a ZodError if the resulting file would not validate.
+ */
+export function commitRuleChange(opts: {
+  author: string;
+  action: RuleChangeAction;
+  ruleId: string;
+  rules: AreaRule[];
+  baseVersion: number;
+}): Promise<CommitResult> {
+  serverOnly();
+  const run = async (): Promise<CommitResult> => {
+    const current = getAreaRuleSet();
+    if (current.version !== opts.baseVersion) {
+      return {
+        ok: false,
+        status: 409,
+        error: `Rules changed since version ${opts.baseVersion} (now ${current.version}); reload and retry`,
+      };
+    }
+    const version = current.version + 1;
+    const file = AreaRulesFileSchema.parse({ version, rules: opts.rules });
+
+    const revision: AreaRuleRevision = {
+      version,
+      author: opts.author,
+      at: new Date().toISOString(),
+      action: opts.action,
+      ruleId: opts.ruleId,
+      diff: diffRuleSets(current.rules, file.rules),
+      rules: file.rules,
+    };
+
+    const target = areaRulesFilePath();
+    const tmp = `${target}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(file, null, 2) + "\n", "utf8");
+    await rename(tmp, target);
+    invalidateAreaRules();
+
+    const log = revisionsFile();
+    await mkdir(path.dirname(log), { recursive: true });
+    await appendFile(log, JSON.stringify(revision) + "\n", "utf8");
+
+    console.log("[areas] committed v" + version, opts.action, opts.ruleId, "by", opts.author);
+    return { ok: true, revision };
+  };
+  const next = writeChain.then(run, run);
+  writeChain = next.catch(() => undefined);
+  return next;
+}
+
+/** All recorded revisions, oldest first. */
+export async function listRevisions(): Promise<AreaRuleRevision[]> {
+  serverOnly();
+  let raw: string;
+  try {
+    raw = await readFile(revisionsFile(), "utf8");
+  } catch {
+    return [];
+  }
+  const out: AreaRuleRevision[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      out.push(JSON.parse(line) as AreaRuleRevision);
+    } catch {}
+  }
+  return out;
+}
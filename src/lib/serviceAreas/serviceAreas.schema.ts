@@ -0,0 +1,152 @@
+import { z } from "zod";
+import type { AreaRule, Weekday } from "./serviceAreas";
+import { seasonOccurrence, type RecurringSeason } from "../season/recurring";
+import { HOLIDAY_POLICIES } from "../calendar/holidays";
+
+// Days per month in a leap year, so Feb 29 is accepted (it simply lands on Mar 1 otherwise).
+const MAX_DAY = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const weekday = z
+  .number()
+  .int("Weekday must be a whole number")
+  .min(0, "Weekday must be 0 (Sun) – 6 (Sat)")
+  .max(6, "Weekday must be 0 (Sun) – 6 (Sat)")
+  .transform((n) => n as Weekday);
+
+const monthDay = z
+  .object({
+    month: z.number().int().min(1, "Month must be 1–12").max(12, "Month must be 1–12"),
+    day: z.number().int().min(1, "Day must be at least 1"),
+  })
+  .refine((md) => md.day <= MAX_DAY[md.month - 1], {
+    message: "Day is past the end of the month",
+    path: ["day"],
+  });
+
+const season = z
+  .object({ start: monthDay, end: monthDay })
+  .refine(
+    (s) => s.start.month !== s.end.month || s.start.day !== s.end.day,
+    "Season start and end must differ"
+  );
+
+// GeoJSON positions are [lng, lat]; rings must be closed and have at least 4 positions.
+const position = z.tuple([
+  z.number().min(-180, "Longitude must be -180–180").max(180, "Longitude must be -180–180"),
+  z.number().min(-90, "Latitude must be -90–90").max(90, "Latitude must be -90–90"),
+]);
+
+const ring = z
+  .array(position)
+  .min(4, "A polygon ring needs at least 4 positions")
+  .refine((r) => {
+    const [a, b] = [r[0], r[r.length - 1]];
+    return a[0] === b[0] && a[1] === b[1];
+  }, "A polygon ring must end where it starts");
+
+const polygonRings = z.array(ring).min(1, "A polygon needs an outer ring");
+
+const areaGeometry = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("Polygon"), coordinates: polygonRings }),
+  z.object({
+    type: z.literal("MultiPolygon"),
+    coordinates: z.array(polygonRings).min(1, "A multipolygon needs at least one polygon"),
+  }),
+]);
+
+// Compare occurrences in a fixed non-leap reference year (in UTC, so the check
+// does not depend on the configured timezone) so ordering is stable.
+const REF_YEAR = 2001;
+
+function seasonOrderIssue(seasons: RecurringSeason[]): string | null {
+  const occ = seasons.map((s) => seasonOccurrence(s, REF_YEAR, "UTC"));
+  for (let i = 1; i < occ.length; i++) {
+    if (occ[i].start <= occ[i - 1].start) {
+      return "Seasons must be listed in calendar order";
+    }
+    if (occ[i].start < occ[i - 1].end) {
+      return "Seasons must not overlap";
+    }
+  }
+  // The last window must also end before the first one recurs next year.
+  if (occ.length > 1) {
+    const nextFirst = seasonOccurrence(seasons[0], REF_YEAR + 1, "UTC");
+    if (occ[occ.length - 1].end > nextFirst.start) return "Seasons must not overlap";
+  }
+  return null;
+}
+
+export const AreaRuleSchema = z
+  .object({
+    id: z
+      .string()
+      .trim()
+      .regex(/^[a-z0-9][a-z0-9-]*$/, "Rule id must be lowercase letters, digits and dashes"),
+    state: z
+      .string()
+      .transform((s) => s.trim().toUpperCase())
+      .refine((s) => /^[A-Z]{2}$/.test(s), "Use a 2-letter state code")
+      .optional(),
+    city: z.string().trim().min(1, "City cannot be blank").optional(),
+    // "28445", or a ZIP+4-level prefix such as "28445-12" (stored as digits)
+    zipPrefix: z
+      .string()
+      .trim()
+      .regex(/^(\d{1,9}|\d{5}-\d{1,4})$/, "ZIP prefix must be 1–9 digits, e.g. 284, 28445 or 28445-12")
+      .transform((s) => s.replace("-", ""))
+      .optional(),
+    area: areaGeometry.optional(),
+    baseDay: weekday,
+    secondaryDay: weekday.optional(),
+    seasons: z.array(season).optional(),
+    holidayPolicy: z.enum(HOLIDAY_POLICIES).optional(),
+    note: z.string().optional(),
+    retiredAt: z.iso.datetime().optional(),
+  })
+  .superRefine((rule, ctx) => {
+    if (!rule.city && !rule.zipPrefix && !rule.area) {
+      ctx.addIssue({
+        code: "custom",
+        message: "A rule needs a city, a zipPrefix or an area polygon",
+        path: ["city"],
+      });
+    }
+    if (rule.seasons?.length) {
+      const issue = seasonOrderIssue(rule.seasons);
+      if (issue) ctx.addIssue({ code: "custom", message: issue, path: ["seasons"] });
+    }
+  });
+
+export const AreaRulesFileSchema = z
+  .object({
+    version: z.number().int().min(0).default(0),
+    rules: z.array(AreaRuleSchema),
+  })
+  .superRefine((file, ctx) => {
+    const seen = new Set<string>();
+    file.rules.forEach((r, i) => {
+      if (seen.has(r.id)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Duplicate rule id "${r.id}"`,
+          path: ["rules", i, "id"],
+        });
+      }
+      seen.add(r.id);
+    });
+  });
+
+export type AreaRulesFile = z.output<typeof AreaRulesFileSchema>;
+
+/** Validate raw JSON (already parsed) into a rules file; throws a ZodError on bad input. */
+export function parseAreaRulesFile(raw: unknown): {
+  version: number;
+  rules: AreaRule[];
+} {
+  return AreaRulesFileSchema.parse(raw);
+}
+
+/** Validate raw JSON (already parsed) into rules; throws a ZodError on bad input. */
+export function parseAreaRules(raw: unknown): AreaRule[] {
+  return parseAreaRulesFile(raw).rules;
+}
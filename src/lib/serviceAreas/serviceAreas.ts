@@ -1,4 +1,13 @@
-// Minimal “in-code DB” for now. Supabase later.
+import {
+  currentOrNextSeasonsWindow,
+  type RecurringSeason,
+} from "../season/recurring";
+import { pointInGeometry, type AreaGeometry, type Position } from "../geo/polygon";
+import { geocodeAddress } from "../geo/geocoder";
+import type { HolidayPolicy } from "../calendar/holidays";
+import { parseAreaRulesFile } from "./serviceAreas.schema";
+import areaRulesFile from "../../../config/service-areas.json";
+
 export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6; // Sun=0
 export const DOW = {
   Sun: 0,
@@ -11,107 +20,159 @@ export const DOW = {
 } as const;
 
 export type AreaRule = {
+  id: string; // stable key, e.g. "topsail-beach"
+  state?: string; // 2-letter code; when set, only addresses in this state match
   city?: string; // case-insensitive exact match
-  zipPrefix?: string; // longest prefix wins, e.g. "284" or "28401"
+  zipPrefix?: string; // digits, longest prefix wins, e.g. "284", "28401" or ZIP+4 level "284451234"
+  area?: AreaGeometry; // GeoJSON Polygon/MultiPolygon; checked before city and zip
   baseDay: Weekday; // e.g., 1 = Monday
   secondaryDay?: Weekday; // optional
-  season?: {
-    // optional (for seasonal add-on)
-    startUTC: number; // epoch seconds (UTC)
-    endUTC: number; // epoch seconds (UTC, exclusive)
-  };
+  seasons?: RecurringSeason[]; // optional (for seasonal add-on), each repeats every year
+  holidayPolicy?: HolidayPolicy; // pickups on a holiday; defaults to "slide"
   note?: string;
+  retiredAt?: string; // ISO timestamp; retired rules no longer match addresses
+};
+
+// Rules live in config/service-areas.json (validated on load). This bundled copy
+// is only a fallback: on the server the rule store swaps in the current file
+// contents and reloads them when the file changes, and client components fetch
+// those from /api/service-areas (see useAreaRules) rather than read this.
+const bundledRules = parseAreaRulesFile(areaRulesFile);
+export const AREA_RULES: AreaRule[] = bundledRules.rules;
+export const AREA_RULES_VERSION: number = bundledRules.version;
+
+const globalForAreas = globalThis as unknown as {
+  areaRuleSource?: () => AreaRule[];
 };
 
-// === EDIT THESE RULES as needed ===
-
-export const AREA_RULES: AreaRule[] = [
-  {
-    city: "Topsail Beach",
-    baseDay: DOW.Mon, // Mon
-    secondaryDay: DOW.Thu, // Thurs
-    season: {
-      startUTC: Date.UTC(2025, 10, 1, 0, 0, 0) / 1000, // Nov 1, 2025 00:00 UTC (CURRENTLY IN SEASON)
-      endUTC: Date.UTC(2026, 2, 1, 0, 0, 0) / 1000, // March 1, 2026 00:00 UTC
-    },
-  },
-  {
-    city: "Surf City",
-    baseDay: DOW.Tue, // Tues
-    secondaryDay: DOW.Fri, // Fri
-    season: {
-      startUTC: Date.UTC(2025, 9, 15, 0, 0, 0) / 1000, // Oct 15, 2025 (CURRENTLY IN SEASON)
-      endUTC: Date.UTC(2026, 1, 28, 0, 0, 0) / 1000, // Feb 28, 2026
-    },
-  },
-  {
-    city: "North Topsail Beach",
-    baseDay: DOW.Wed,
-    secondaryDay: DOW.Sat,
-    season: {
-      startUTC: Date.UTC(2026, 3, 1, 0, 0, 0) / 1000, // April 1, 2026 (OUT OF SEASON - future)
-      endUTC: Date.UTC(2026, 8, 30, 0, 0, 0) / 1000, // Sept 30, 2026
-    },
-  },
-  {
-    city: "Wilmington",
-    zipPrefix: "28401", // city wins; this is just to show prefix
-    baseDay: DOW.Tue,
-  },
-  // Fallback by ZIP prefix (example)
-  { zipPrefix: "284", baseDay: DOW.Tue }, // generic coastal area, no seasonal
-];
+/** Install the provider `resolveRuleForAddress` reads from when no rules are passed. */
+export function setAreaRuleSource(source: () => AreaRule[]) {
+  globalForAreas.areaRuleSource = source;
+}
+
+export function currentAreaRules(): AreaRule[] {
+  return globalForAreas.areaRuleSource?.() ?? AREA_RULES;
+}
 
 export type Address = {
   line1: string;
   city: string;
   state: string;
-  zip: string; // "28401"
+  zip: string; // "28401" or "28401-1234"
+  location?: Position; // [lng, lat]; geocoded from the fields above when absent
+};
+
+export type MatchKind = "polygon" | "city" | "zipPrefix";
+
+// Which parts of the address selected the rule, e.g. state "NC" + city "Surf City".
+export type MatchExplanation = {
+  ruleId: string;
+  by: MatchKind;
+  criteria: Array<
+    | { field: "state"; value: string }
+    | { field: "polygon"; value: Position }
+    | { field: "city"; value: string }
+    | { field: "zipPrefix"; value: string; level: "zip5" | "zip4" }
+  >;
+  summary: string; // human-readable, e.g. "city Surf City, NC"
 };
 
 export type AddressRuleResult = {
   baseDay: Weekday;
   secondaryDay?: Weekday;
-  season?: { startUTC: number; endUTC: number };
-  matchedBy: "city" | "zipPrefix";
+  seasons?: RecurringSeason[];
+  holidayPolicy?: HolidayPolicy;
+  matchedBy: MatchExplanation;
   ruleNote?: string;
 };
 
 const norm = (s: string) => s.trim().toLowerCase();
 
+/** Digits only, up to ZIP+4 (9 digits): "28445-1234" → "284451234". */
+export const normalizeZip = (z: string) => (z || "").replace(/\D/g, "").slice(0, 9);
+
+/** "284451234" → "28445-1234"; shorter prefixes get a trailing "*". */
+export function formatZipPrefix(p: string): string {
+  const shown = p.length > 5 ? `${p.slice(0, 5)}-${p.slice(5)}` : p;
+  return p.length === 5 || p.length === 9 ? shown : `${shown}*`;
+}
+
+function explain(rule: AreaRule, by: MatchKind, location?: Position): MatchExplanation {
+  const criteria: MatchExplanation["criteria"] = [];
+  if (rule.state) criteria.push({ field: "state", value: rule.state });
+  if (by === "polygon" && location) criteria.push({ field: "polygon", value: location });
+  if (by === "city" && rule.city) criteria.push({ field: "city", value: rule.city });
+  if (by === "zipPrefix" && rule.zipPrefix) {
+    criteria.push({
+      field: "zipPrefix",
+      value: rule.zipPrefix,
+      level: rule.zipPrefix.length > 5 ? "zip4" : "zip5",
+    });
+  }
+  const where =
+    by === "polygon"
+      ? `mapped zone ${rule.id}`
+      : by === "city"
+      ? `city ${rule.city}`
+      : `ZIP ${formatZipPrefix(rule.zipPrefix!)}`;
+  return {
+    ruleId: rule.id,
+    by,
+    criteria,
+    summary: rule.state ? `${where}, ${rule.state}` : where,
+  };
+}
+
+function toResult(rule: AreaRule, by: MatchKind, location?: Position): AddressRuleResult {
+  return {
+    baseDay: rule.baseDay,
+    secondaryDay: rule.secondaryDay,
+    seasons: rule.seasons,
+    holidayPolicy: rule.holidayPolicy,
+    matchedBy: explain(rule, by, location),
+    ruleNote: rule.note,
+  };
+}
+
 export function resolveRuleForAddress(
   addr: Address,
-  rules: AreaRule[] = AREA_RULES
+  rules: AreaRule[] = currentAreaRules()
 ): AddressRuleResult | null {
-  const city = norm(addr.city);
-  // 1) city exact (case-insensitive)
-  const byCity = rules.find((r) => r.city && norm(r.city) === city);
-  if (byCity) {
-    return {
-      baseDay: byCity.baseDay,
-      secondaryDay: byCity.secondaryDay,
-      season: byCity.season,
-      matchedBy: "city",
-      ruleNote: byCity.note,
-    };
+  const state = (addr.state || "").trim().toUpperCase();
+  // Retired rules never match; state-scoped rules only match inside their state.
+  // (An address without a state can still match them, e.g. legacy metadata.)
+  rules = rules.filter(
+    (r) => !r.retiredAt && (!r.state || !state || r.state === state)
+  );
+  // Among otherwise equal candidates, a rule scoped to the address's state wins.
+  const scoped = (r: AreaRule) => (r.state ? 1 : 0);
+
+  // 1) polygon containing the geocoded address (first in list order)
+  const polygons = rules.filter((r) => r.area);
+  const location = polygons.length ? addr.location ?? geocodeAddress(addr) : null;
+  if (location) {
+    const byArea = polygons
+      .filter((r) => pointInGeometry(location, r.area!))
+      .sort((a, b) => scoped(b) - scoped(a))[0];
+    if (byArea) return toResult(byArea, "polygon", location);
   }
 
-  // 2) zip prefix (longest wins)
-  const cleanZip = (z: string) => (z || "").trim().slice(0, 5);
-  const zip = cleanZip(addr.zip);
+  // 2) city exact (case-insensitive)
+  const city = norm(addr.city);
+  const byCity = rules
+    .filter((r) => r.city && norm(r.city) === city)
+    .sort((a, b) => scoped(b) - scoped(a))[0];
+  if (byCity) return toResult(byCity, "city");
+
+  // 3) zip prefix (longest wins, down to ZIP+4 level)
+  const zip = normalizeZip(addr.zip);
   const byZip = rules
     .filter((r) => r.zipPrefix && zip.startsWith(r.zipPrefix))
-    .sort((a, b) => b.zipPrefix!.length - a.zipPrefix!.length)[0];
-
-  if (byZip) {
-    return {
-      baseDay: byZip.baseDay,
-      secondaryDay: byZip.secondaryDay,
-      season: byZip.season,
-      matchedBy: "zipPrefix",
-      ruleNote: byZip.note,
-    };
-  }
+    .sort(
+      (a, b) =>
+        b.zipPrefix!.length - a.zipPrefix!.length || scoped(b) - scoped(a)
+    )[0];
+  if (byZip) return toResult(byZip, "zipPrefix");
 
   return null;
 }
@@ -123,19 +184,12 @@ export function nextSeasonWindowForAddress(
   refUTCsec: number
 ): { start: number; end: number } | null {
   const res = resolveRuleForAddress(addr);
-  if (!res?.season) return null;
-
-  const { startUTC, endUTC } = res.season;
-
-  // If the season is in the future relative to ref, return that window.
-  if (refUTCsec < endUTC) {
-    // If already within the season, “next” is current remainder.
-    const start = Math.max(startUTC, refUTCsec);
-    return { start, end: endUTC };
-  }
+  if (!res?.seasons?.length) return null;
 
-  // If this is an annual season, can roll it forward one year:
-  // return { start: startUTC + ONE_YEAR, end: endUTC + ONE_YEAR };
-  // For now, just return the configured window.
-  return { start: startUTC, end: endUTC };
+  // Seasons recur yearly, so there is always a current or upcoming occurrence.
+  const win = currentOrNextSeasonsWindow(res.seasons, refUTCsec);
+  if (!win) return null;
+  const { start, end } = win;
+  // If already within the season, “next” is current remainder.
+  return { start: Math.max(start, refUTCsec), end };
 }
@@ -0,0 +1,114 @@
+// src/lib/serviceAreas/store.ts
+import { readFileSync, statSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import { serverOnly } from "@/lib/validation/server-only";
+import { serviceAreaRulesPath } from "@/lib/env/env.server";
+import {
+  AREA_RULES,
+  AREA_RULES_VERSION,
+  setAreaRuleSource,
+  type AreaRule,
+} from "./serviceAreas";
+import { parseAreaRulesFile } from "./serviceAreas.schema";
+import { formatLintIssue, lintAreaRules, lintErrors } from "./lint";
+
+/**
+ * File-backed service-area rule store.
+ *
+ * Rules are read from SERVICE_AREA_RULES_PATH, validated, and cached in memory.
+ * The file's mtime is re-checked at most once per CHECK_INTERVAL_MS, so edits are
+ * picked up without restarting the server. An edit that fails validation or the
+ * rule linter is logged and ignored; the last good rules stay active.
+ */
+
+const CHECK_INTERVAL_MS = 2000;
+
+export type AreaRuleSet = { version: number; rules: AreaRule[] };
+
+type Cache = AreaRuleSet & {
+  file: string;
+  mtimeMs: number;
+  checkedAt: number;
+};
+
+// Survive dev-server module reloads, like the Stripe client does.
+const globalForStore = globalThis as unknown as { areaRuleCache?: Cache };
+
+const BUNDLED: AreaRuleSet = { version: AREA_RULES_VERSION, rules: AREA_RULES };
+
+export function areaRulesFilePath(): string {
+  return path.resolve(process.cwd(), serviceAreaRulesPath());
+}
+
+function readRulesFile(file: string): AreaRuleSet | null {
+  try {
+    const set = parseAreaRulesFile(JSON.parse(readFileSync(file, "utf8")));
+    const issues = lintAreaRules(set.rules);
+    issues.forEach((i) => console.warn("[areas]", formatLintIssue(i)));
+    if (lintErrors(issues).length) {
+      console.error("[areas] rule file has conflicting rules, keeping previous rules:", file);
+      return null;
+    }
+    console.log("[areas] loaded", set.rules.length, "rules (v" + set.version + ") from", file);
+    return set;
+  } catch (err) {
+    console.error(
+      "[areas] invalid rule file, keeping previous rules:",
+      file,
+      err instanceof z.ZodError ? z.prettifyError(err) : (err as Error)?.message
+    );
+    return null;
+  }
+}
+
+/** Current rules and their version, reloading from disk when the file changed. */
+export function getAreaRuleSet(): AreaRuleSet {
+  serverOnly();
+  const file = areaRulesFilePath();
+  const cache = globalForStore.areaRuleCache?.file === file
+    ? globalForStore.areaRuleCache
+    : undefined;
+  const now = Date.now();
+
+  if (cache && now - cache.checkedAt < CHECK_INTERVAL_MS) return cache;
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = statSync(file).mtimeMs;
+  } catch {
+    // No file on disk (e.g. a bundled deploy): serve the rules compiled into the app.
+    if (!cache) console.warn("[areas] rule file not found, using bundled rules:", file);
+    const set = cache ?? BUNDLED;
+    globalForStore.areaRuleCache = { ...set, file, mtimeMs: -1, checkedAt: now };
+    return globalForStore.areaRuleCache;
+  }
+
+  if (cache && cache.mtimeMs === mtimeMs) {
+    cache.checkedAt = now;
+    return cache;
+  }
+
+  const set = readRulesFile(file) ?? cache ?? BUNDLED;
+  globalForStore.areaRuleCache = {
+    version: set.version,
+    rules: set.rules,
+    file,
+    mtimeMs,
+    checkedAt: now,
+  };
+  return globalForStore.areaRuleCache;
+}
+
+/** Current rules, reloading from disk when the file changed. */
+export function getAreaRules(): AreaRule[] {
+  return getAreaRuleSet().rules;
+}
+
+/** Drop the cache so the next read goes to disk (used after writing the file). */
+export function invalidateAreaRules() {
+  globalForStore.areaRuleCache = undefined;
+}
+
+// Importing the store makes it the default source for resolveRuleForAddress.
+setAreaRuleSource(getAreaRules);
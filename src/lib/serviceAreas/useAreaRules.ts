@@ -0,0 +1,44 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { AreaRule } from "./serviceAreas";
+
+// Rules change at runtime (admin API, file reloads), so the browser asks the
+// server for them instead of using the copy bundled at build time. One request
+// is shared by every component on the page; one mounting a minute later refetches.
+const MAX_AGE_MS = 60_000;
+
+let cached: { rules: AreaRule[]; fetchedAt: number } | null = null;
+let inflight: Promise<AreaRule[]> | null = null;
+
+function loadAreaRules(): Promise<AreaRule[]> {
+  inflight ??= fetch("/api/service-areas", { cache: "no-store" })
+    .then((res) => {
+      if (!res.ok) throw new Error("Failed to load service areas");
+      return res.json() as Promise<{ version: number; rules: AreaRule[] }>;
+    })
+    .then(({ rules }) => {
+      cached = { rules, fetchedAt: Date.now() };
+      return rules;
+    })
+    .finally(() => {
+      inflight = null;
+    });
+  return inflight;
+}
+
+/** Current service-area rules, or null until they have loaded. */
+export function useAreaRules(): AreaRule[] | null {
+  const [rules, setRules] = useState<AreaRule[] | null>(cached?.rules ?? null);
+  useEffect(() => {
+    if (cached && Date.now() - cached.fetchedAt < MAX_AGE_MS) return;
+    let live = true;
+    loadAreaRules()
+      .then((next) => live && setRules(next))
+      .catch((err) => console.error("[areas]", err));
+    return () => {
+      live = false;
+    };
+  }, []);
+  return rules;
+}
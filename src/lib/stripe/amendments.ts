@@ -0,0 +1,113 @@
+// src/lib/stripe/amendments.ts
+import type Stripe from "stripe";
+import {
+  PRICE_BY_PLAN,
+  type AccountType,
+} from "@/features/payments/stripe/server/prices";
+import { PRORATION_BEHAVIOR } from "./constants";
+import { forecastInvoices, type ForecastInvoice } from "./forecast";
+import { scheduleTimeline, type AddrRuleCompact } from "./phaseBuilder";
+import { phasesIdem, type PhaseItem, type SchedulePhase } from "./scheduleEngine";
+import { pendingPhasesMetadata, type PhasePlan } from "./schedulePlanner";
+import {
+  nextLocalMidnight,
+  phaseSpans,
+  spliceSchedule,
+  toSchedulePhase,
+  withPendingPhases,
+} from "./scheduleSplice";
+
+/**
+ * Changing the set of properties on a live subscription. The schedule keeps its
+ * phases (including the ones held back in `phases_pending`) up to the effective
+ * date, by default the next local midnight; from there it follows the timeline
+ * of the new addr_rules entries, so every phase change Stripe makes (and
+ * prorates) is a real change in service. Pure: the caller fetches and writes.
+ */
+
+export type PropertyAmendment = {
+  effectiveAt: number; // when the new entries start billing
+  quoteAt: number; // where before/after are compared (effectiveAt unless the change bites later)
+  entries: AddrRuleCompact[];
+  plan: PhasePlan; // phases to send to the schedule, plus what is deferred
+  before: PhaseItem[]; // items that would bill at quoteAt without the change
+  after: PhaseItem[]; // items that bill at quoteAt with it
+  subscriptionMetadata: Record<string, string>;
+};
+
+/** Items in effect at `t`; the last phase runs on after its end. */
+function itemsAt(phases: SchedulePhase[], t: number): PhaseItem[] {
+  const spans = phaseSpans(phases);
+  const span =
+    spans.find((s) => s.start <= t && (s.end == null || t < s.end)) ?? spans[spans.length - 1];
+  return span?.items ?? [];
+}
+
+/** Lay out the schedule for `entries` (the full new list) from `effectiveAt` (a local midnight). */
+export function planPropertyAmendment(
+  sched: Stripe.SubscriptionSchedule,
+  sub: Stripe.Subscription,
+  entries: AddrRuleCompact[],
+  opts: { nowEpoch: number; effectiveAt?: number; quoteAt?: number }
+): PropertyAmendment {
+  const now = opts.nowEpoch;
+  const live = (sched.phases ?? []).map(toSchedulePhase);
+  if (!live.length) throw new Error("Schedule has no phases");
+  const existing = withPendingPhases(live, sub.metadata);
+
+  const account: AccountType =
+    sub.metadata?.signup_account_type === "business" ? "business" : "individual";
+  const priceIds = {
+    base: PRICE_BY_PLAN[account].trash,
+    seasonal: PRICE_BY_PLAN[account].seasonal_2nd,
+  };
+  const timelineFor = (anchor: number) =>
+    scheduleTimeline(entries, { priceIds, anchor, prorationBehavior: PRORATION_BEHAVIOR });
+
+  const effectiveAt = Math.max(opts.effectiveAt ?? 0, nextLocalMidnight(now));
+  const continuation = timelineFor(effectiveAt);
+  const plan = spliceSchedule(existing, continuation, { now, anchor: effectiveAt });
+  const quoteAt = Math.max(opts.quoteAt ?? effectiveAt, effectiveAt);
+
+  return {
+    effectiveAt,
+    quoteAt,
+    entries,
+    plan,
+    before: itemsAt(existing, quoteAt),
+    after: itemsAt(continuation, quoteAt),
+    subscriptionMetadata: {
+      ...pendingPhasesMetadata(plan, sub.metadata),
+      phases_idem: phasesIdem(timelineFor(existing[0].start_date ?? now)),
+    },
+  };
+}
+
+const monthlyTotal = (items: PhaseItem[], unitAmounts: Record<string, number>) =>
+  items.reduce((sum, i) => sum + (unitAmounts[i.price] ?? 0) * i.quantity, 0);
+
+/**
+ * What the customer sees before confirming: the monthly amount before and after
+ * the change, and the first invoice after it takes effect (which carries the
+ * proration charge or credit for the rest of that month).
+ */
+export function amendmentQuote(
+  amendment: PropertyAmendment,
+  unitAmounts: Record<string, number>
+): { monthlyBefore: number; monthlyAfter: number; nextInvoice: ForecastInvoice | null } {
+  const [nextInvoice] = forecastInvoices({
+    phases: phaseSpans(amendment.plan.phases).map((span, i, all) => ({
+      ...span,
+      end: i === all.length - 1 ? null : span.end,
+      proration_behavior: amendment.plan.phases[i].proration_behavior,
+    })),
+    unitAmounts,
+    fromEpoch: amendment.quoteAt,
+    months: 1,
+  });
+  return {
+    monthlyBefore: monthlyTotal(amendment.before, unitAmounts),
+    monthlyAfter: monthlyTotal(amendment.after, unitAmounts),
+    nextInvoice: nextInvoice ?? null,
+  };
+}
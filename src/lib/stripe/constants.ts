@@ -3,5 +3,3 @@ export const PRORATION_BEHAVIOR =
     | "create_prorations"
     | "none"
     | "always_invoice") ?? "create_prorations";
-
-export const NINETY_DAYS_SEC = 180 * 24 * 60 * 60; // 180 days (6 months) for demo purposes
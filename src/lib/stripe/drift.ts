@@ -0,0 +1,272 @@
+// src/lib/stripe/drift.ts
+import type Stripe from "stripe";
+import { serverOnly } from "@/lib/validation/server-only";
+import {
+  PRICE_BY_PLAN,
+  type AccountType,
+} from "@/features/payments/stripe/server/prices";
+import { seasonsWindowsBetween } from "@/lib/season/recurring";
+import { addrRuleChanges } from "@/lib/serviceAreas/impact";
+import { resolveRuleForAddress } from "@/lib/serviceAreas/serviceAreas";
+import { getAreaRules } from "@/lib/serviceAreas/store";
+import { addrRulesRefMetadata, readAddrRules, saveAddrRules } from "@/lib/db/repository";
+import { PRORATION_BEHAVIOR } from "./constants";
+import { scheduleTimeline, type AddrRuleCompact } from "./phaseBuilder";
+import { phasesIdem, type SchedulePhase } from "./scheduleEngine";
+import { pendingPhasesMetadata } from "./schedulePlanner";
+import {
+  nextLocalMidnight,
+  phaseSpans,
+  spliceSchedule,
+  toSchedulePhase,
+  withPendingPhases,
+} from "./scheduleSplice";
+
+/**
+ * Drift check: does a live schedule still bill what its addr_rules say, under
+ * the current service-area rules? The expected timeline is rebuilt from the
+ * stored entries re-resolved against today's rules (pickup days and the seasons
+ * ahead, up to as far as the entries were pinned), then compared with the live
+ * phases plus any `phases_pending` remainder, price by price over time from now
+ * on. Repair rewrites the schedule from the next local midnight; phases that have
+ * started are left alone.
+ */
+
+const LIVE_STATUSES = new Set(["active", "trialing", "past_due", "unpaid"]);
+
+// One price whose quantity differs over [start, end); end null = from then on.
+export type DriftDifference = {
+  start: number;
+  end: number | null;
+  price: string;
+  expected: number;
+  actual: number;
+};
+
+export type DriftReport = {
+  subscriptionId: string;
+  scheduleId: string | null;
+  status: "ok" | "drift" | "repaired" | "skipped" | "failed";
+  reason?: string;
+  // Stored phases_idem vs. the fingerprint of the stored addr_rules (did metadata change since the build?)
+  idem: { stored: string | null; computed: string; match: boolean } | null;
+  ruleChanges: Array<{ index: number; city: string; zip: string; reasons: string[] }>;
+  differences: DriftDifference[];
+  repairedPhases?: number;
+};
+
+type DriftCheck = {
+  report: DriftReport;
+  repair?: {
+    phases: SchedulePhase[];
+    subscriptionMetadata: Record<string, string>;
+    entries: AddrRuleCompact[]; // re-resolved addr_rules the repaired schedule follows
+  };
+};
+
+/** Stored entries re-resolved against the current rules, windows re-derived from `now` on. */
+export function expectedEntries(entries: AddrRuleCompact[], now: number): AddrRuleCompact[] {
+  // Entries were pinned this far; expect seasons up to there, not beyond.
+  const coverUntil = Math.max(now, ...entries.flatMap((e) => e.w.map(([, end]) => end)));
+  return entries.map((entry) => {
+    const rule = resolveRuleForAddress({
+      line1: "",
+      city: entry.c ?? "",
+      state: entry.st ?? "",
+      zip: entry.z ?? "",
+      location: entry.g,
+    });
+    if (!rule) return entry; // outside every area now: nothing to compare against
+    const ahead = seasonsWindowsBetween(rule.seasons ?? [], now, coverUntil).map(
+      (w) => [w.start, w.end] as [number, number]
+    );
+    return {
+      ...entry,
+      b: rule.baseDay,
+      s: rule.secondaryDay ?? -1,
+      w: [...entry.w.filter(([, end]) => end <= now), ...ahead],
+    };
+  });
+}
+
+/** Quantity differences between two phase lists from `from` on (last phases run on forever). */
+export function diffPhaseTimelines(
+  actual: SchedulePhase[],
+  expected: SchedulePhase[],
+  from: number
+): DriftDifference[] {
+  const spans = (phases: SchedulePhase[]) => {
+    const out = phaseSpans(phases);
+    if (out.length) out[out.length - 1].end = null;
+    return out;
+  };
+  const a = spans(actual);
+  const e = spans(expected);
+  const qtyAt = (list: typeof a, t: number) => {
+    const span = list.find((s) => s.start <= t && (s.end == null || t < s.end));
+    const out = new Map<string, number>();
+    for (const i of span?.items ?? []) out.set(i.price, (out.get(i.price) ?? 0) + i.quantity);
+    return out;
+  };
+
+  const edges = new Set<number>([from]);
+  for (const s of [...a, ...e]) {
+    if (s.start > from) edges.add(s.start);
+    if (s.end != null && s.end > from) edges.add(s.end);
+  }
+  const boundaries = [...edges].sort((x, y) => x - y);
+
+  const out: DriftDifference[] = [];
+  boundaries.forEach((start, i) => {
+    const end = boundaries[i + 1] ?? null;
+    const have = qtyAt(a, start);
+    const want = qtyAt(e, start);
+    for (const price of new Set([...have.keys(), ...want.keys()])) {
+      const actualQty = have.get(price) ?? 0;
+      const expectedQty = want.get(price) ?? 0;
+      if (actualQty === expectedQty) continue;
+      const prev = out.find(
+        (d) =>
+          d.price === price && d.end === start && d.actual === actualQty && d.expected === expectedQty
+      );
+      if (prev) prev.end = end;
+      else out.push({ start, end, price, expected: expectedQty, actual: actualQty });
+    }
+  });
+  return out.sort((x, y) => x.start - y.start || x.price.localeCompare(y.price));
+}
+
+/** Compare one schedule with its expected plan. No Stripe calls. */
+export function checkScheduleDrift(
+  sched: Stripe.SubscriptionSchedule,
+  sub: Stripe.Subscription,
+  opts: { nowEpoch: number }
+): DriftCheck {
+  const now = opts.nowEpoch;
+  const report: DriftReport = {
+    subscriptionId: sub.id,
+    scheduleId: sched.id,
+    status: "skipped",
+    idem: null,
+    ruleChanges: [],
+    differences: [],
+  };
+  const existing = (sched.phases ?? []).map(toSchedulePhase);
+  if (!existing.length) return { report: { ...report, reason: "schedule has no phases" } };
+  const entries = readAddrRules(sub);
+  if (!entries.length) return { report: { ...report, reason: "no addr_rules" } };
+
+  const account: AccountType =
+    sub.metadata?.signup_account_type === "business" ? "business" : "individual";
+  const priceIds = {
+    base: PRICE_BY_PLAN[account].trash,
+    seasonal: PRICE_BY_PLAN[account].seasonal_2nd,
+  };
+  const timelineFor = (list: AddrRuleCompact[], anchor: number) =>
+    scheduleTimeline(list, { priceIds, anchor, prorationBehavior: PRORATION_BEHAVIOR });
+
+  const firstStart = existing[0].start_date ?? now;
+  const computedIdem = phasesIdem(timelineFor(entries, firstStart));
+  const storedIdem = sub.metadata?.phases_idem || null;
+  report.idem = { stored: storedIdem, computed: computedIdem, match: storedIdem === computedIdem };
+
+  const rules = getAreaRules();
+  entries.forEach((entry, index) => {
+    const reasons = addrRuleChanges(entry, rules, now);
+    if (reasons.length) report.ruleChanges.push({ index, city: entry.c, zip: entry.z, reasons });
+  });
+
+  const expected = expectedEntries(entries, now);
+  report.differences = diffPhaseTimelines(
+    withPendingPhases(existing, sub.metadata),
+    timelineFor(expected, now),
+    now
+  );
+  report.status = report.differences.length ? "drift" : "ok";
+  if (!report.differences.length) return { report };
+
+  const anchor = nextLocalMidnight(now);
+  const plan = spliceSchedule(existing, timelineFor(expected, anchor), { now, anchor });
+  const subscriptionMetadata: Record<string, string> = {
+    ...pendingPhasesMetadata(plan, sub.metadata),
+    phases_idem: phasesIdem(timelineFor(expected, firstStart)),
+  };
+  return { report, repair: { phases: plan.phases, subscriptionMetadata, entries: expected } };
+}
+
+async function reconcileOne(
+  stripe: Stripe,
+  sub: Stripe.Subscription,
+  opts: { repair: boolean; nowEpoch: number }
+): Promise<DriftReport> {
+  const scheduleId = typeof sub.schedule === "string" ? sub.schedule : sub.schedule?.id;
+  if (!scheduleId) {
+    return {
+      subscriptionId: sub.id,
+      scheduleId: null,
+      status: "skipped",
+      reason: "no schedule",
+      idem: null,
+      ruleChanges: [],
+      differences: [],
+    };
+  }
+  try {
+    const sched = await stripe.subscriptionSchedules.retrieve(scheduleId);
+    const { report, repair } = checkScheduleDrift(sched, sub, { nowEpoch: opts.nowEpoch });
+    if (repair && opts.repair) {
+      await stripe.subscriptionSchedules.update(scheduleId, {
+        phases: repair.phases,
+        end_behavior: "release",
+      });
+      const version = saveAddrRules(sub, repair.entries, { source: "drift" });
+      await stripe.subscriptions.update(sub.id, {
+        metadata: {
+          ...repair.subscriptionMetadata,
+          ...addrRulesRefMetadata(sub.metadata, version),
+        },
+      });
+      report.status = "repaired";
+      report.repairedPhases = repair.phases.length;
+    }
+    return report;
+  } catch (err) {
+    return {
+      subscriptionId: sub.id,
+      scheduleId,
+      status: "failed",
+      reason: err instanceof Error ? err.message : String(err),
+      idem: null,
+      ruleChanges: [],
+      differences: [],
+    };
+  }
+}
+
+/**
+ * Check one subscription, or every live one. With `repair`, schedules that drifted
+ * are rewritten from the next local midnight on.
+ */
+export async function reconcileSchedules(
+  stripe: Stripe,
+  opts?: { subscriptionId?: string; repair?: boolean; nowEpoch?: number; limit?: number }
+): Promise<DriftReport[]> {
+  serverOnly();
+  const run = {
+    repair: opts?.repair ?? false,
+    nowEpoch: opts?.nowEpoch ?? Math.floor(Date.now() / 1000),
+  };
+
+  if (opts?.subscriptionId) {
+    const sub = await stripe.subscriptions.retrieve(opts.subscriptionId);
+    return [await reconcileOne(stripe, sub, run)];
+  }
+
+  const reports: DriftReport[] = [];
+  for await (const sub of stripe.subscriptions.list({ status: "all", limit: 100 })) {
+    if (!LIVE_STATUSES.has(sub.status) || !sub.schedule) continue;
+    if (opts?.limit != null && reports.length >= opts.limit) break;
+    reports.push(await reconcileOne(stripe, sub, run));
+  }
+  return reports;
+}
@@ -0,0 +1,226 @@
+// src/lib/stripe/evergreen.ts
+import type Stripe from "stripe";
+import { serverOnly } from "@/lib/validation/server-only";
+import {
+  PRICE_BY_PLAN,
+  type AccountType,
+} from "@/features/payments/stripe/server/prices";
+import { SEASON_HORIZON_SEC, seasonsWindowsBetween } from "@/lib/season/recurring";
+import { resolveRuleForAddress } from "@/lib/serviceAreas/serviceAreas";
+import "@/lib/serviceAreas/store"; // next seasons come from the hot-reloaded rule file
+import { addrRulesRefMetadata, readAddrRules, saveAddrRules } from "@/lib/db/repository";
+import { PRORATION_BEHAVIOR } from "./constants";
+import { hasSeasonalItem } from "./propertyPrices";
+import { scheduleTimeline, type AddrRuleCompact } from "./phaseBuilder";
+import { phasesIdem, type PhaseItem, type SchedulePhase } from "./scheduleEngine";
+import { pendingPhasesMetadata, readPendingPhasesFromMeta } from "./schedulePlanner";
+import { nextLocalMidnight, phaseSpans, spliceSchedule, toSchedulePhase } from "./scheduleSplice";
+
+/**
+ * Evergreen extender: keeps schedules billing the seasons ahead of them.
+ *
+ * A schedule ends in a base-only tail phase. Once that tail is due within the
+ * threshold, the phases after it are appended: first whatever the planner held
+ * back in `phases_pending`, otherwise the next seasons of each property, taken
+ * from its addr_rules windows and, past those, from the current rule for the
+ * address (the new windows are pinned back into addr_rules so billing, calendars
+ * and the drift check agree). Phases that have started are sent back unchanged;
+ * only the tail and what follows it are rewritten. `extended_until` on the
+ * schedule records how far the dated phases now reach.
+ */
+
+export const EXTEND_THRESHOLD_DAYS = 60;
+
+const EXTENDABLE_STATUSES = new Set(["active", "not_started"]);
+
+export type ExtensionResult = {
+  scheduleId: string;
+  subscriptionId: string | null;
+  status: "extended" | "planned" | "skipped" | "failed";
+  reason?: string;
+  coveredUntil: number | null; // start of the tail before extending
+  extendedUntil?: number; // end of the last dated phase after extending
+  appended?: Array<{ start: number; end: number | null; items: PhaseItem[] }>;
+  pendingPhases?: number; // still held back after this run
+};
+
+type ExtensionPlan = {
+  result: ExtensionResult;
+  update?: {
+    phases: SchedulePhase[];
+    scheduleMetadata: Record<string, string>;
+    subscriptionMetadata: Record<string, string>;
+    entries?: AddrRuleCompact[]; // addr_rules with the next seasons pinned, when they changed
+  };
+};
+
+/**
+ * Windows from `from` on, for every entry billed by season (opted into the 2nd
+ * pickup, or on the seasonal-only plan, whose base follows the seasons even
+ * without a 2nd day): the pinned ones, then the current rule's seasons after the
+ * last pinned window. Returns the entries with those windows pinned.
+ */
+function withUpcomingWindows(entries: AddrRuleCompact[], from: number): AddrRuleCompact[] {
+  return entries.map((entry) => {
+    if (!hasSeasonalItem(entry) && entry.so !== 1) return entry;
+    const rule = resolveRuleForAddress({
+      line1: "",
+      city: entry.c ?? "",
+      state: entry.st ?? "",
+      zip: entry.z ?? "",
+      location: entry.g,
+    });
+    if (!rule?.seasons?.length) return entry;
+    const pinnedUntil = Math.max(from, ...entry.w.map(([, end]) => end));
+    const next = seasonsWindowsBetween(rule.seasons, from, from + SEASON_HORIZON_SEC)
+      .filter((w) => w.start >= pinnedUntil)
+      .map((w) => [w.start, w.end] as [number, number]);
+    return next.length ? { ...entry, w: [...entry.w, ...next] } : entry;
+  });
+}
+
+/** What extending one schedule would do. No Stripe calls. */
+export function planScheduleExtension(
+  sched: Stripe.SubscriptionSchedule,
+  sub: Stripe.Subscription,
+  opts: { nowEpoch: number; thresholdDays?: number }
+): ExtensionPlan {
+  const now = opts.nowEpoch;
+  const thresholdDays = opts.thresholdDays ?? EXTEND_THRESHOLD_DAYS;
+  const existing = (sched.phases ?? []).map(toSchedulePhase);
+  const base: ExtensionResult = {
+    scheduleId: sched.id,
+    subscriptionId: sub.id,
+    status: "skipped",
+    coveredUntil: null,
+  };
+  if (!existing.length) return { result: { ...base, reason: "schedule has no phases" } };
+
+  const tail = existing[existing.length - 1];
+  const coveredUntil = tail.start_date ?? now;
+  const tailEnd = tail.end_date ?? coveredUntil;
+  base.coveredUntil = coveredUntil;
+  if (tailEnd > now + thresholdDays * 86400) {
+    return { result: { ...base, reason: `tail ends beyond the ${thresholdDays}-day threshold` } };
+  }
+
+  const entries = readAddrRules(sub);
+  if (!entries.length) return { result: { ...base, reason: "no addr_rules" } };
+
+  const account: AccountType =
+    sub.metadata?.signup_account_type === "business" ? "business" : "individual";
+  const priceIds = {
+    base: PRICE_BY_PLAN[account].trash,
+    seasonal: PRICE_BY_PLAN[account].seasonal_2nd,
+  };
+
+  // Where appended phases start: the tail's start, or tomorrow if the tail is already running.
+  const anchor = coveredUntil > now ? coveredUntil : nextLocalMidnight(now);
+
+  const stored = readPendingPhasesFromMeta(sub.metadata);
+  let updatedEntries = entries;
+  let continuation: SchedulePhase[];
+  if (stored && stored.horizonEnd === coveredUntil && coveredUntil > now) {
+    continuation = stored.pending.map((p) => ({ ...p, proration_behavior: PRORATION_BEHAVIOR }));
+  } else {
+    updatedEntries = withUpcomingWindows(entries, anchor);
+    continuation = scheduleTimeline(updatedEntries, {
+      priceIds,
+      anchor,
+      prorationBehavior: PRORATION_BEHAVIOR,
+    });
+  }
+
+  // Started phases stay as they are; a running tail now ends where the continuation starts.
+  const plan = spliceSchedule(existing, continuation, { now, anchor });
+  const { phases } = plan;
+
+  const extendedUntil = Math.max(0, ...phases.map((p) => p.end_date ?? 0));
+  if (extendedUntil <= coveredUntil) {
+    return { result: { ...base, reason: "no upcoming season to add" } };
+  }
+
+  const appended = phaseSpans(phases).filter((span) => span.start >= anchor);
+
+  const subscriptionMetadata: Record<string, string> = {
+    ...pendingPhasesMetadata(plan, sub.metadata),
+  };
+  if (updatedEntries !== entries) {
+    subscriptionMetadata.phases_idem = phasesIdem(
+      scheduleTimeline(updatedEntries, {
+        priceIds,
+        anchor: existing[0].start_date ?? now,
+        prorationBehavior: PRORATION_BEHAVIOR,
+      })
+    );
+  }
+
+  return {
+    result: {
+      ...base,
+      status: "planned",
+      extendedUntil,
+      appended,
+      pendingPhases: plan.pending.length,
+    },
+    update: {
+      phases,
+      scheduleMetadata: { extended_until: String(extendedUntil) },
+      subscriptionMetadata,
+      ...(updatedEntries !== entries && { entries: updatedEntries }),
+    },
+  };
+}
+
+/**
+ * Walk every active schedule and extend the ones whose tail is due. With
+ * `dryRun`, nothing is written and each result says what would be appended.
+ */
+export async function extendEvergreenSchedules(
+  stripe: Stripe,
+  opts?: { dryRun?: boolean; thresholdDays?: number; nowEpoch?: number; limit?: number }
+): Promise<ExtensionResult[]> {
+  serverOnly();
+  const nowEpoch = opts?.nowEpoch ?? Math.floor(Date.now() / 1000);
+  const results: ExtensionResult[] = [];
+
+  for await (const sched of stripe.subscriptionSchedules.list({ limit: 100 })) {
+    if (!EXTENDABLE_STATUSES.has(sched.status)) continue;
+    if (opts?.limit != null && results.length >= opts.limit) break;
+    const subscriptionId =
+      typeof sched.subscription === "string" ? sched.subscription : sched.subscription?.id;
+    if (!subscriptionId) continue;
+
+    try {
+      const sub = await stripe.subscriptions.retrieve(subscriptionId);
+      const { result, update } = planScheduleExtension(sched, sub, {
+        nowEpoch,
+        thresholdDays: opts?.thresholdDays,
+      });
+      if (update && !opts?.dryRun) {
+        await stripe.subscriptionSchedules.update(sched.id, {
+          phases: update.phases,
+          end_behavior: "release",
+          metadata: update.scheduleMetadata,
+        });
+        const metadata = { ...update.subscriptionMetadata };
+        if (update.entries) {
+          const version = saveAddrRules(sub, update.entries, { source: "extend" });
+          Object.assign(metadata, addrRulesRefMetadata(sub.metadata, version));
+        }
+        await stripe.subscriptions.update(sub.id, { metadata });
+        result.status = "extended";
+      }
+      results.push(result);
+    } catch (err) {
+      results.push({
+        scheduleId: sched.id,
+        subscriptionId,
+        status: "failed",
+        reason: err instanceof Error ? err.message : String(err),
+        coveredUntil: null,
+      });
+    }
+  }
+  return results;
+}
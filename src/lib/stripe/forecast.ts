@@ -0,0 +1,145 @@
+// src/lib/stripe/forecast.ts
+import { nextMonthFirstEpoch } from "../date/utcMonth";
+import { serviceTimeZone } from "../date/zoned";
+import type { PhaseItem, ProrationBehavior } from "./scheduleEngine";
+
+/**
+ * Month-by-month invoice projection from subscription-schedule phases.
+ *
+ * Billing is monthly in advance on the 1st (local midnight in the service
+ * timezone, the anchor signup sets). The invoice on the 1st charges the items in
+ * effect at that moment for the coming month, plus the prorations for every phase
+ * change during the month that just ended: for each price, the quantity change
+ * times the unit amount times the share of the month left after the change.
+ * Stripe itemises those as a credit and a charge; here they are netted to one
+ * line per price and change. Pure: no Stripe calls, no clock.
+ */
+
+export type ForecastPhase = {
+  start: number; // epoch seconds
+  end: number | null; // null = open-ended
+  items: PhaseItem[];
+  proration_behavior?: ProrationBehavior;
+};
+
+export type ForecastLine = {
+  price: string;
+  quantity: number; // for prorations, the quantity change (negative = credit)
+  amount: number; // cents
+  kind: "recurring" | "proration";
+  periodStart: number;
+  periodEnd: number;
+};
+
+export type ForecastInvoice = {
+  date: number; // invoice date = start of the billed month
+  periodStart: number;
+  periodEnd: number;
+  lines: ForecastLine[];
+  total: number; // cents
+};
+
+export type ForecastInput = {
+  phases: ForecastPhase[];
+  unitAmounts: Record<string, number>; // price id → cents per unit per month
+  fromEpoch: number; // first invoice is the first month start at or after this
+  months?: number;
+  timeZone?: string;
+};
+
+export const FORECAST_MONTHS = 12;
+
+/**
+ * Index of the phase in effect at `t`. After the last phase ends the schedule is
+ * released and the subscription keeps that phase's items; before the first
+ * phase there is nothing to bill.
+ */
+function phaseIndexAt(phases: ForecastPhase[], t: number): number {
+  for (let i = phases.length - 1; i >= 0; i--) {
+    if (phases[i].start <= t) return i;
+  }
+  return -1;
+}
+
+const quantities = (items: PhaseItem[]) => {
+  const out = new Map<string, number>();
+  for (const i of items) out.set(i.price, (out.get(i.price) ?? 0) + i.quantity);
+  return out;
+};
+
+function prorationLines(
+  phases: ForecastPhase[],
+  unitAmounts: Record<string, number>,
+  periodStart: number,
+  periodEnd: number
+): ForecastLine[] {
+  const lines: ForecastLine[] = [];
+  const length = periodEnd - periodStart;
+  for (let i = 1; i < phases.length; i++) {
+    const change = phases[i].start;
+    if (change <= periodStart || change >= periodEnd) continue;
+    if (phases[i].proration_behavior === "none") continue;
+
+    const before = quantities(phases[i - 1].items);
+    const after = quantities(phases[i].items);
+    for (const price of new Set([...before.keys(), ...after.keys()])) {
+      const delta = (after.get(price) ?? 0) - (before.get(price) ?? 0);
+      if (!delta) continue;
+      lines.push({
+        price,
+        quantity: delta,
+        amount: Math.round(
+          (delta * (unitAmounts[price] ?? 0) * (periodEnd - change)) / length
+        ),
+        kind: "proration",
+        periodStart: change,
+        periodEnd,
+      });
+    }
+  }
+  return lines;
+}
+
+export function forecastInvoices(input: ForecastInput): ForecastInvoice[] {
+  const { unitAmounts, fromEpoch } = input;
+  const months = input.months ?? FORECAST_MONTHS;
+  const timeZone = input.timeZone ?? serviceTimeZone();
+  const phases = [...input.phases].sort((a, b) => a.start - b.start);
+  if (!phases.length) return [];
+
+  const invoices: ForecastInvoice[] = [];
+  // nextMonthFirstEpoch(x - 1) is x itself when x is already a month start.
+  let date = nextMonthFirstEpoch(fromEpoch - 1, timeZone);
+  let prev = nextMonthFirstEpoch(date - 32 * 86400, timeZone);
+
+  for (let m = 0; m < months; m++) {
+    const next = nextMonthFirstEpoch(date, timeZone);
+    const current = phaseIndexAt(phases, date);
+
+    const lines = prorationLines(phases, unitAmounts, prev, date);
+    if (current >= 0) {
+      for (const item of phases[current].items) {
+        if (item.quantity <= 0) continue;
+        lines.push({
+          price: item.price,
+          quantity: item.quantity,
+          amount: (unitAmounts[item.price] ?? 0) * item.quantity,
+          kind: "recurring",
+          periodStart: date,
+          periodEnd: next,
+        });
+      }
+    }
+
+    invoices.push({
+      date,
+      periodStart: date,
+      periodEnd: next,
+      lines,
+      total: lines.reduce((sum, l) => sum + l.amount, 0),
+    });
+    prev = date;
+    date = next;
+  }
+  return invoices;
+}
@@ -0,0 +1,59 @@
+// src/lib/stripe/holds.ts
+import type { AddrRuleCompact } from "./phaseBuilder";
+
+/**
+ * Vacation holds. A hold pauses one property over [start, end) (local midnights):
+ * no pickups, and no charge for it, base or seasonal. Holds are stored on the
+ * property's addr_rules entry (`h`), so the schedule engine, the calendars and
+ * anything building a day's route read them from the same place.
+ */
+
+// Keeps addr_rules metadata small; ended holds are dropped whenever one is added.
+export const MAX_HOLDS_PER_PROPERTY = 4;
+export const MAX_HOLD_DAYS = 180;
+
+/**
+ * Entries with [start, end) added to the holds of `indexes`. Overlapping or
+ * touching holds merge; ended ones (before `now`) are dropped. Throws when a
+ * property would end up with too many holds.
+ */
+export function withHold(
+  entries: AddrRuleCompact[],
+  indexes: number[],
+  hold: [number, number],
+  now: number
+): AddrRuleCompact[] {
+  return entries.map((entry, i) => {
+    if (!indexes.includes(i)) return entry;
+    const merged: Array<[number, number]> = [];
+    const all = [...(entry.h ?? []).filter(([, end]) => end > now), hold].sort(
+      (a, b) => a[0] - b[0]
+    );
+    for (const [start, end] of all) {
+      const last = merged[merged.length - 1];
+      if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+      else merged.push([start, end]);
+    }
+    if (merged.length > MAX_HOLDS_PER_PROPERTY) {
+      throw new Error(`A property can have at most ${MAX_HOLDS_PER_PROPERTY} upcoming holds`);
+    }
+    return { ...entry, h: merged };
+  });
+}
+
+/** Entries without the hold of property `index` starting at `start`, or null if there is none. */
+export function withoutHold(
+  entries: AddrRuleCompact[],
+  index: number,
+  start: number
+): AddrRuleCompact[] | null {
+  const entry = entries[index];
+  if (!entry?.h?.some(([s]) => s === start)) return null;
+  return entries.map((e, i) => {
+    if (i !== index) return e;
+    const h = e.h!.filter(([s]) => s !== start);
+    const rest = { ...e };
+    delete rest.h;
+    return h.length ? { ...rest, h } : rest;
+  });
+}
@@ -0,0 +1,87 @@
+// Stripe metadata values are limited to 500 characters, so long JSON strings are
+// split across fields: either a single `<prefix>` key, or `<prefix>_1`,
+// `<prefix>_2`, ... in order.
+
+export function chunkForMetadata(
+  prefix: string,
+  json: string,
+  perFieldMax = 480
+): Record<string, string> {
+  const chunks: Record<string, string> = {};
+  if (json.length <= perFieldMax) {
+    chunks[prefix] = json;
+    return chunks;
+  }
+  let i = 1,
+    start = 0;
+  while (start < json.length) {
+    const end = Math.min(start + perFieldMax, json.length);
+    chunks[`${prefix}_${i}`] = json.slice(start, end);
+    start = end;
+    i++;
+  }
+  return chunks;
+}
+
+/**
+ * Fields for a metadata update that replaces `<prefix>` JSON: the new chunks, plus
+ * empty values for chunk keys of the previous value that are no longer used (an
+ * empty value deletes the key). A null `json` clears the value entirely.
+ */
+export function rewriteChunkedMeta(
+  previous: Record<string, string> | undefined | null,
+  prefix: string,
+  json: string | null
+): Record<string, string> {
+  const cleared: Record<string, string> = {};
+  for (const key of Object.keys(previous ?? {})) {
+    if (key === prefix || new RegExp(`^${prefix}_\\d+$`).test(key)) cleared[key] = "";
+  }
+  return json == null ? cleared : { ...cleared, ...chunkForMetadata(prefix, json) };
+}
+
+export function readChunkedMeta(
+  meta: Record<string, string> | undefined | null,
+  prefix: string
+): string {
+  if (!meta) return "";
+  if (meta[prefix] != null) return meta[prefix];
+  const re = new RegExp(`^${prefix}_(\\d+)$`);
+  return Object.keys(meta)
+    .map((k) => ({ k, n: Number(re.exec(k)?.[1] ?? NaN) }))
+    .filter((e) => !Number.isNaN(e.n))
+    .sort((a, b) => a.n - b.n)
+    .map((e) => meta[e.k] ?? "")
+    .join("");
+}
+
+// Customer metadata `service_addresses`, written at signup before the repository
+// held properties (one entry per property). Also the repository's address shape.
+export type ServiceAddressMeta = {
+  index: number;
+  line1: string;
+  line2?: string;
+  city: string;
+  state: string;
+  postal_code: string;
+  seasonal_selected?: boolean;
+};
+
+export function readServiceAddressesFromMeta(
+  meta: Record<string, string> | undefined | null
+): ServiceAddressMeta[] {
+  try {
+    const arr = JSON.parse(readChunkedMeta(meta, "service_addresses") || "[]");
+    return Array.isArray(arr) ? (arr as ServiceAddressMeta[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** "12 Ocean Blvd, Apt 2, Topsail Beach, NC 28445" */
+export function formatServiceAddress(a: ServiceAddressMeta): string {
+  const cityLine = [a.city, [a.state, a.postal_code].filter(Boolean).join(" ")]
+    .filter(Boolean)
+    .join(", ");
+  return [a.line1, a.line2, cityLine].filter(Boolean).join(", ");
+}
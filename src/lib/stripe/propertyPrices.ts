@@ -0,0 +1,121 @@
+// src/lib/stripe/propertyPrices.ts
+import { createHash } from "crypto";
+import type Stripe from "stripe";
+import { serverOnly } from "@/lib/validation/server-only";
+import type { AddrRuleCompact } from "./phaseBuilder";
+
+/**
+ * Per-property item mode. Stripe does not allow the same price twice on one
+ * subscription, so each service address gets its own prices: copies of the plan
+ * prices whose product is named after the address. Invoice lines then read
+ * "Trash valet – 12 Ocean Blvd, Surf City" and a property can be added or removed
+ * without touching the others' items.
+ */
+
+// Stripe's limit on items per subscription (and per schedule phase).
+export const MAX_SUBSCRIPTION_ITEMS = 20;
+
+export type PropertyPriceKind = "base" | "seasonal";
+
+const PRODUCT_NAME: Record<PropertyPriceKind, string> = {
+  base: "Trash valet",
+  seasonal: "Seasonal 2nd pickup",
+};
+
+/** Whether an entry bills a seasonal item at some point. */
+export const hasSeasonalItem = (e: AddrRuleCompact) => e.s !== -1 && (e.o ?? 1) === 1;
+
+/** Most items any phase can hold in per-property mode: every base item plus every seasonal one. */
+export const propertyItemCount = (entries: AddrRuleCompact[]) =>
+  entries.length + entries.filter(hasSeasonalItem).length;
+
+export const fitsPerPropertyItems = (entries: AddrRuleCompact[]) =>
+  propertyItemCount(entries) <= MAX_SUBSCRIPTION_ITEMS;
+
+/**
+ * Create one property's price for `kind`, copying amount and interval from the
+ * plan price. Idempotent per customer, property, kind and address.
+ */
+export async function createPropertyPrice(
+  stripe: Stripe,
+  opts: {
+    customerId: string;
+    index: number;
+    kind: PropertyPriceKind;
+    address: string; // e.g. "12 Ocean Blvd, Surf City"
+    planPrice: Stripe.Price;
+  }
+): Promise<string> {
+  serverOnly();
+  const { customerId, index, kind, address, planPrice } = opts;
+  const idem = createHash("sha256")
+    .update(`price:${customerId}:${index}:${kind}:${address}:${planPrice.id}|v1`)
+    .digest("hex");
+  const price = await stripe.prices.create(
+    {
+      currency: planPrice.currency,
+      unit_amount: planPrice.unit_amount ?? 0,
+      recurring: {
+        interval: planPrice.recurring?.interval ?? "month",
+        interval_count: planPrice.recurring?.interval_count ?? 1,
+      },
+      nickname: `${PRODUCT_NAME[kind]} – ${address}`,
+      product_data: {
+        name: `${PRODUCT_NAME[kind]} – ${address}`,
+        metadata: { customer: customerId, property_index: String(index) },
+      },
+      metadata: {
+        kind,
+        property_index: String(index), // at creation; removals shift it, items carry the current one
+        customer: customerId,
+        plan_price: planPrice.id,
+      },
+    },
+    { idempotencyKey: idem }
+  );
+  return price.id;
+}
+
+/**
+ * Prices for every entry, in order: `[base]`, or `[base, seasonal]` when the
+ * property bills a 2nd pickup. Assign the result to each entry's `p`.
+ */
+export async function createPropertyPrices(
+  stripe: Stripe,
+  opts: {
+    customerId: string;
+    entries: AddrRuleCompact[];
+    addresses: string[]; // same order as entries
+    planPrices: { base: Stripe.Price; seasonal: Stripe.Price };
+  }
+): Promise<string[][]> {
+  serverOnly();
+  const { customerId, entries, addresses, planPrices } = opts;
+  const out: string[][] = [];
+  // One at a time: a handful of properties, and it keeps us well under rate limits.
+  for (const [index, entry] of entries.entries()) {
+    const address = addresses[index] || `${entry.c} ${entry.z}`.trim();
+    const prices = [
+      await createPropertyPrice(stripe, {
+        customerId,
+        index,
+        kind: "base",
+        address,
+        planPrice: planPrices.base,
+      }),
+    ];
+    if (hasSeasonalItem(entry)) {
+      prices.push(
+        await createPropertyPrice(stripe, {
+          customerId,
+          index,
+          kind: "seasonal",
+          address,
+          planPrice: planPrices.seasonal,
+        })
+      );
+    }
+    out.push(prices);
+  }
+  return out;
+}
@@ -0,0 +1,258 @@
+import { describe, expect, it } from "vitest";
+import { zonedEpoch, zonedMidnightEpoch } from "@/lib/date/zoned";
+import {
+  buildSignupPhases,
+  planAddrRulesSchedule,
+  scheduleTimeline,
+  type AddrRuleCompact,
+} from "./phaseBuilder";
+import {
+  buildPropertySchedulePhases,
+  buildSchedulePhases,
+  seasonalSegments,
+  type SchedulePhase,
+} from "./scheduleEngine";
+
+const priceIds = { base: "price_base", seasonal: "price_seasonal" };
+const prorationBehavior = "create_prorations" as const;
+const w = (start: number, end: number) => ({ start, end });
+
+// addr_rules entry: a year-round property with no 2nd pickup unless overridden
+const entry = (over: Partial<AddrRuleCompact> = {}): AddrRuleCompact => ({
+  c: "Wilmington",
+  z: "28401",
+  b: 2,
+  s: -1,
+  w: [],
+  ...over,
+});
+
+// [end_date, base qty, seasonal qty] per phase, for aggregate schedules
+const shape = (phases: SchedulePhase[]) =>
+  phases.map((p) => [
+    p.end_date ?? null,
+    p.items.find((i) => i.price === priceIds.base)?.quantity ?? 0,
+    p.items.find((i) => i.price === priceIds.seasonal)?.quantity ?? 0,
+  ]);
+
+describe("seasonalSegments", () => {
+  it("adds up overlapping windows", () => {
+    expect(seasonalSegments([w(10, 30), w(20, 40)], 0)).toEqual([
+      { start: 0, end: 10, seasonalQty: 0, heldQty: 0, inSeasonBaseQty: 0 },
+      { start: 10, end: 20, seasonalQty: 1, heldQty: 0, inSeasonBaseQty: 0 },
+      { start: 20, end: 30, seasonalQty: 2, heldQty: 0, inSeasonBaseQty: 0 },
+      { start: 30, end: 40, seasonalQty: 1, heldQty: 0, inSeasonBaseQty: 0 },
+    ]);
+  });
+
+  it("counts identical windows twice and merges adjacent equal slices", () => {
+    expect(seasonalSegments([w(10, 30), w(10, 30)], 0).map((s) => [s.end, s.seasonalQty])).toEqual([
+      [10, 0],
+      [30, 2],
+    ]);
+    expect(seasonalSegments([w(10, 20), w(20, 30)], 0).map((s) => [s.end, s.seasonalQty])).toEqual([
+      [10, 0],
+      [30, 1],
+    ]);
+  });
+
+  it("starts at the anchor and drops windows that are over", () => {
+    expect(seasonalSegments([w(10, 30)], 15)).toEqual([
+      { start: 15, end: 30, seasonalQty: 1, heldQty: 0, inSeasonBaseQty: 0 },
+    ]);
+    expect(seasonalSegments([w(1, 5)], 10)).toEqual([]);
+  });
+});
+
+describe("buildSchedulePhases", () => {
+  it("bills the overlap of two seasons as two seasonal units", () => {
+    const phases = buildSchedulePhases({
+      windows: [w(10, 30), w(20, 40)],
+      baseQty: 2,
+      priceIds,
+      anchor: 0,
+      prorationBehavior,
+    });
+    expect(phases[0].start_date).toBe(0);
+    expect(shape(phases)).toEqual([
+      [10, 2, 0],
+      [20, 2, 1],
+      [30, 2, 2],
+      [40, 2, 1],
+      [null, 2, 0],
+    ]);
+  });
+
+  it("takes a held property off the base quantity", () => {
+    const phases = buildSchedulePhases({
+      windows: [],
+      baseQty: 2,
+      holds: [w(10, 20)],
+      priceIds,
+      anchor: 0,
+      prorationBehavior,
+    });
+    expect(shape(phases)).toEqual([
+      [10, 2, 0],
+      [20, 1, 0],
+      [null, 2, 0],
+    ]);
+  });
+
+  it("is a single open-ended phase when nothing is seasonal", () => {
+    const phases = buildSchedulePhases({ windows: [], baseQty: 3, priceIds, anchor: 5, prorationBehavior });
+    expect(phases).toEqual([
+      { start_date: 5, items: [{ price: priceIds.base, quantity: 3 }], proration_behavior: prorationBehavior },
+    ]);
+  });
+});
+
+describe("scheduleTimeline (aggregate)", () => {
+  const opts = { priceIds, anchor: 0, prorationBehavior };
+
+  it("splits a season around a hold and bills nothing for the held property", () => {
+    const phases = scheduleTimeline(
+      [entry({ s: 5, o: 1, w: [[10, 40]], h: [[20, 30]] }), entry()],
+      opts
+    );
+    expect(shape(phases)).toEqual([
+      [10, 2, 0],
+      [20, 2, 1],
+      [30, 1, 0],
+      [40, 2, 1],
+      [null, 2, 0],
+    ]);
+  });
+
+  it("ignores the season of a property that did not opt in", () => {
+    expect(shape(scheduleTimeline([entry({ s: 5, o: 0, w: [[10, 40]] })], opts))).toEqual([
+      [null, 1, 0],
+    ]);
+  });
+
+  it("bills seasonal-only properties only inside their windows", () => {
+    const phases = scheduleTimeline([entry({ so: 1, w: [[10, 20], [50, 60]] })], opts);
+    expect(shape(phases)).toEqual([
+      [10, 0, 0],
+      [20, 1, 0],
+      [50, 0, 0],
+      [60, 1, 0],
+      [null, 0, 0],
+    ]);
+  });
+
+  it("cuts a hold out of a seasonal-only season, 2nd pickup included", () => {
+    const phases = scheduleTimeline(
+      [entry({ so: 1, s: 5, o: 1, w: [[10, 20]], h: [[12, 15]] })],
+      opts
+    );
+    expect(shape(phases)).toEqual([
+      [10, 0, 0],
+      [12, 1, 1],
+      [15, 0, 0],
+      [20, 1, 1],
+      [null, 0, 0],
+    ]);
+  });
+
+  it("adds a seasonal-only base unit on top of year-round ones where seasons overlap", () => {
+    const phases = scheduleTimeline(
+      [entry({ s: 5, o: 1, w: [[10, 30]] }), entry({ so: 1, w: [[20, 40]] })],
+      opts
+    );
+    expect(shape(phases)).toEqual([
+      [10, 1, 0],
+      [20, 1, 1],
+      [30, 2, 1],
+      [40, 2, 0],
+      [null, 1, 0],
+    ]);
+  });
+});
+
+describe("buildPropertySchedulePhases", () => {
+  it("gives each property its own items and zeroes a held one", () => {
+    const phases = buildPropertySchedulePhases({
+      properties: [
+        { base: "b0", seasonal: "s0", windows: [w(10, 20)], metadata: { property_index: "0" } },
+        { base: "b1", windows: [], holds: [w(15, 25)] },
+      ],
+      anchor: 0,
+      prorationBehavior,
+    });
+    const b0 = { price: "b0", quantity: 1, metadata: { property_index: "0", kind: "base" } };
+    const s0 = { price: "s0", quantity: 1, metadata: { property_index: "0", kind: "seasonal" } };
+    expect(phases.map((p) => [p.end_date ?? null, p.items])).toEqual([
+      [10, [b0, { price: "b1", quantity: 1 }]],
+      [15, [b0, s0, { price: "b1", quantity: 1 }]],
+      [20, [b0, s0, { price: "b1", quantity: 0 }]],
+      [25, [b0, { price: "b1", quantity: 0 }]],
+      [null, [b0, { price: "b1", quantity: 1 }]],
+    ]);
+    expect(phases[0].start_date).toBe(0);
+  });
+
+  it("keeps a seasonal-only property's base item at 0 out of season", () => {
+    const phases = buildPropertySchedulePhases({
+      properties: [{ base: "b", windows: [w(10, 20)], seasonalOnly: true }],
+      anchor: 0,
+      prorationBehavior,
+    });
+    expect(phases.map((p) => [p.end_date ?? null, p.items[0].quantity])).toEqual([
+      [10, 0],
+      [20, 1],
+      [null, 0],
+    ]);
+  });
+});
+
+describe("signup and webhook build the same schedule", () => {
+  const day = (y: number, m0: number, d: number) => zonedMidnightEpoch(y, m0, d);
+  const rules = (perProperty: boolean): AddrRuleCompact[] => [
+    entry({
+      s: 5,
+      o: 1,
+      w: [
+        [day(2025, 4, 1), day(2025, 8, 1)],
+        [day(2026, 4, 1), day(2026, 8, 1)],
+      ],
+      h: [[day(2025, 6, 1), day(2025, 6, 15)]],
+      ...(perProperty && { p: ["price_p0_base", "price_p0_seasonal"] }),
+    }),
+    entry({
+      so: 1,
+      w: [[day(2025, 5, 1), day(2025, 7, 1)]],
+      ...(perProperty && { p: ["price_p1_base"] }),
+    }),
+    entry(perProperty ? { p: ["price_p2_base"] } : {}),
+  ];
+  // Signup runs mid-afternoon; Stripe starts the subscription's phase a few seconds later
+  const signupAt = zonedEpoch(2025, 3, 10, 14, 0);
+  const phaseStart = signupAt + 7;
+  const withoutStart = (phases: SchedulePhase[]) =>
+    phases.map((p) => ({ ...p, start_date: undefined }));
+
+  it.each([
+    ["aggregate", false],
+    ["per-property", true],
+  ])("%s", (_, perProperty) => {
+    const signup = buildSignupPhases({
+      addrRules: rules(perProperty),
+      nowEpoch: signupAt,
+      priceIds,
+      prorationBehavior,
+    });
+    const webhook = planAddrRulesSchedule(rules(perProperty), {
+      priceIds,
+      anchor: phaseStart,
+      prorationBehavior,
+    });
+
+    expect(signup.phases.length).toBeGreaterThan(3);
+    expect(signup.phases[0].start_date).toBe(signupAt);
+    expect(webhook.phases[0].start_date).toBe(phaseStart);
+    expect(withoutStart(webhook.phases)).toEqual(withoutStart(signup.phases));
+    expect(webhook.pending).toEqual(signup.pending);
+    expect(webhook.phases_idem).toBe(signup.phases_idem);
+  });
+});
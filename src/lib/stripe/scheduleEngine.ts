@@ -0,0 +1,274 @@
+// src/lib/stripe/scheduleEngine.ts
+import type { SeasonWindow } from "../season/recurring";
+import type { AddrRuleCompact } from "./phaseBuilder";
+
+/**
+ * The one place subscription-schedule phases are computed. Signup and the
+ * webhook rebuild both feed it the windows of the subscription's addr_rules
+ * (through `planAddrRulesSchedule`), so they cannot disagree about a schedule.
+ *
+ * Pure: no Stripe calls, no clock. Input is a set of seasonal windows (one per
+ * opted-in property and season occurrence; overlapping windows add up), the base
+ * quantity, any holds (one per paused property and range, each taking one unit
+ * off the base quantity), the base windows of seasonal-only properties (each adding
+ * one base unit while open), price ids and the anchor the schedule starts at.
+ * Output is a list of phases: the first starts at the anchor, each later one starts
+ * where the previous ends, and the last is an open-ended base-only phase (quantity
+ * 0 when every property is seasonal-only).
+ */
+
+export type PriceIds = { base: string; seasonal: string };
+
+export type ProrationBehavior = "create_prorations" | "none" | "always_invoice";
+
+export type PhaseItem = {
+  price: string;
+  quantity: number;
+  metadata?: Record<string, string>; // per-property items say which property they bill
+};
+
+// Assignable to both schedule create and update phase params.
+export type SchedulePhase = {
+  start_date?: number;
+  end_date?: number; // absent on the open-ended tail
+  items: PhaseItem[];
+  proration_behavior: ProrationBehavior;
+};
+
+export type ScheduleSegment = {
+  start: number;
+  end: number;
+  seasonalQty: number;
+  heldQty: number; // base units paused by a vacation hold
+  inSeasonBaseQty: number; // base units of seasonal-only properties that are in season
+};
+
+export type ScheduleInput = {
+  windows: SeasonWindow[];
+  baseQty: number; // year-round properties
+  holds?: SeasonWindow[];
+  baseWindows?: SeasonWindow[]; // seasonal-only properties: one base unit per open window
+  priceIds: PriceIds;
+  anchor: number; // epoch seconds the first phase starts at
+  prorationBehavior: ProrationBehavior;
+};
+
+// Per-property mode: each property has its own prices, so each invoice line names it.
+export type PropertyPricing = {
+  base: string;
+  seasonal?: string; // absent when the property has no 2nd pickup (or did not opt in)
+  windows: SeasonWindow[];
+  seasonalOnly?: boolean; // base billed only while one of `windows` is open
+  holds?: SeasonWindow[]; // no charge for the property while one is in effect
+  metadata?: Record<string, string>;
+};
+
+export type PropertyScheduleInput = {
+  properties: PropertyPricing[];
+  anchor: number;
+  prorationBehavior: ProrationBehavior;
+};
+
+/** `windows` with the parts covered by `cuts` removed. */
+export function subtractWindows(windows: SeasonWindow[], cuts: SeasonWindow[]): SeasonWindow[] {
+  let out = windows;
+  for (const cut of cuts) {
+    out = out.flatMap((w) => {
+      if (cut.end <= w.start || cut.start >= w.end) return [w];
+      const pieces: SeasonWindow[] = [];
+      if (cut.start > w.start) pieces.push({ start: w.start, end: cut.start });
+      if (cut.end < w.end) pieces.push({ start: cut.end, end: w.end });
+      return pieces;
+    });
+  }
+  return out;
+}
+
+/** A property's vacation holds. */
+export const holdWindowsOf = (e: AddrRuleCompact): SeasonWindow[] =>
+  (e.h ?? []).map(([start, end]) => ({ start, end }));
+
+// A property's season windows with its holds cut out.
+const windowsOutsideHolds = (e: AddrRuleCompact) =>
+  subtractWindows(
+    e.w.map(([start, end]) => ({ start, end })),
+    holdWindowsOf(e)
+  );
+
+/** Seasonal windows of the properties that opted into the 2nd pickup, minus their holds. */
+export function seasonalWindowsFromAddrRules(entries: AddrRuleCompact[]): SeasonWindow[] {
+  return entries.filter((e) => e.s !== -1 && (e.o ?? 1) === 1).flatMap(windowsOutsideHolds);
+}
+
+/** Windows during which seasonal-only properties bill their base unit, minus their holds. */
+export function baseWindowsFromAddrRules(entries: AddrRuleCompact[]): SeasonWindow[] {
+  return entries.filter((e) => e.so === 1).flatMap(windowsOutsideHolds);
+}
+
+/**
+ * Seasonal, held and in-season base quantities over time from `anchor` to the last
+ * window or hold end. Slices are cut at every edge and consecutive slices with the same
+ * quantities are merged, so phase edges fall only where a quantity changes.
+ * (Stripe prorates within the billing month, so there is no need to cut at month
+ * starts as well.)
+ */
+export function seasonalSegments(
+  windows: SeasonWindow[],
+  anchor: number,
+  holds: SeasonWindow[] = [],
+  baseWindows: SeasonWindow[] = []
+): ScheduleSegment[] {
+  const liveOf = (list: SeasonWindow[]) => list.filter((w) => w.end > anchor && w.end > w.start);
+  const live = liveOf(windows);
+  const held = liveOf(holds);
+  const inSeason = liveOf(baseWindows);
+  if (!live.length && !held.length && !inSeason.length) return [];
+
+  const edges = new Set<number>([anchor]);
+  for (const w of [...live, ...held, ...inSeason]) {
+    if (w.start > anchor) edges.add(w.start);
+    edges.add(w.end);
+  }
+  const boundaries = [...edges].sort((a, b) => a - b);
+
+  const segments: ScheduleSegment[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = boundaries[i];
+    const end = boundaries[i + 1];
+    const covering = (list: SeasonWindow[]) =>
+      list.filter((w) => w.start <= start && w.end >= end).length;
+    const seasonalQty = covering(live);
+    const heldQty = covering(held);
+    const inSeasonBaseQty = covering(inSeason);
+    const last = segments[segments.length - 1];
+    if (
+      last &&
+      last.seasonalQty === seasonalQty &&
+      last.heldQty === heldQty &&
+      last.inSeasonBaseQty === inSeasonBaseQty
+    ) {
+      last.end = end;
+    } else {
+      segments.push({ start, end, seasonalQty, heldQty, inSeasonBaseQty });
+    }
+  }
+  // Nothing seasonal, held or in season after the last window: the open-ended tail covers it.
+  const idle = (seg: ScheduleSegment) =>
+    seg.seasonalQty === 0 && seg.heldQty === 0 && seg.inSeasonBaseQty === 0;
+  while (segments.length && idle(segments[segments.length - 1])) {
+    segments.pop();
+  }
+  return segments;
+}
+
+function itemsFor(baseQty: number, seasonalQty: number, priceIds: PriceIds): PhaseItem[] {
+  const items: PhaseItem[] = [{ price: priceIds.base, quantity: baseQty }];
+  if (seasonalQty > 0) items.push({ price: priceIds.seasonal, quantity: seasonalQty });
+  return items;
+}
+
+export function buildSchedulePhases(input: ScheduleInput): SchedulePhase[] {
+  const { windows, baseQty, priceIds, anchor, prorationBehavior } = input;
+  const segments = seasonalSegments(windows, anchor, input.holds, input.baseWindows);
+  const phases: SchedulePhase[] = segments.map((seg) => ({
+    end_date: seg.end,
+    items: itemsFor(
+      Math.max(0, baseQty - seg.heldQty) + seg.inSeasonBaseQty,
+      seg.seasonalQty,
+      priceIds
+    ),
+    proration_behavior: prorationBehavior,
+  }));
+  phases.push({
+    items: itemsFor(baseQty, 0, priceIds),
+    proration_behavior: prorationBehavior,
+  });
+  phases[0].start_date = anchor;
+  return phases;
+}
+
+/**
+ * Per-property variant of buildSchedulePhases: one base item per property
+ * throughout, plus a property's seasonal item while one of its windows is open.
+ * A property on hold, or a seasonal-only property out of season, keeps its base
+ * item at quantity 0 and bills no seasonal item. Phase edges fall where the set of
+ * in-season or held properties changes.
+ */
+export function buildPropertySchedulePhases(input: PropertyScheduleInput): SchedulePhase[] {
+  const { properties, anchor, prorationBehavior } = input;
+  const itemsWhile = (
+    inSeason: (p: PropertyPricing) => boolean,
+    onHold: (p: PropertyPricing) => boolean
+  ): PhaseItem[] =>
+    properties.flatMap((p) => {
+      const meta = (kind: string) => (p.metadata ? { metadata: { ...p.metadata, kind } } : {});
+      const off = onHold(p) || (p.seasonalOnly === true && !inSeason(p));
+      const items: PhaseItem[] = [{ price: p.base, quantity: off ? 0 : 1, ...meta("base") }];
+      if (p.seasonal && !off && inSeason(p)) {
+        items.push({ price: p.seasonal, quantity: 1, ...meta("seasonal") });
+      }
+      return items;
+    });
+  const keyOf = (items: PhaseItem[]) => items.map((it) => `${it.price}:${it.quantity}`).join(",");
+
+  const edges = new Set<number>([anchor]);
+  for (const p of properties) {
+    const ranges = [...(p.seasonal || p.seasonalOnly ? p.windows : []), ...(p.holds ?? [])];
+    for (const w of ranges) {
+      if (w.end <= anchor || w.end <= w.start) continue;
+      if (w.start > anchor) edges.add(w.start);
+      edges.add(w.end);
+    }
+  }
+  const boundaries = [...edges].sort((a, b) => a - b);
+
+  const phases: SchedulePhase[] = [];
+  let lastKey = "";
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = boundaries[i];
+    const end = boundaries[i + 1];
+    const covered = (list: SeasonWindow[] = []) =>
+      list.some((w) => w.start <= start && w.end >= end);
+    const items = itemsWhile(
+      (p) => covered(p.windows),
+      (p) => covered(p.holds)
+    );
+    const key = keyOf(items);
+    const last = phases[phases.length - 1];
+    if (last && key === lastKey) last.end_date = end;
+    else phases.push({ end_date: end, items, proration_behavior: prorationBehavior });
+    lastKey = key;
+  }
+  // Nothing seasonal or held after the last window: the open-ended tail covers it.
+  const tailItems = itemsWhile(
+    () => false,
+    () => false
+  );
+  const tailKey = keyOf(tailItems);
+  while (phases.length && keyOf(phases[phases.length - 1].items) === tailKey) {
+    phases.pop();
+  }
+  phases.push({ items: tailItems, proration_behavior: prorationBehavior });
+  phases[0].start_date = anchor;
+  return phases;
+}
+
+/** Items billed at the anchor (what the subscription itself starts with). */
+export const initialItems = (phases: SchedulePhase[]): PhaseItem[] => phases[0]?.items ?? [];
+
+/**
+ * Short fingerprint of a phase list, stored as `phases_idem` metadata. Phases are
+ * compared from their first end date on, so the same plan fingerprints the same
+ * whether it was anchored at signup time or at the subscription's phase start.
+ */
+export function phasesIdem(phases: SchedulePhase[]): string {
+  const str = JSON.stringify(
+    phases.map((p) => [p.end_date ?? null, p.items.map((i) => [i.price, i.quantity])])
+  );
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    hash = (hash << 5) - hash + str.charCodeAt(i);
+    hash |= 0; // Convert to 32bit integer
+  }
+  return Math.abs(hash).toString(36); // base36 for compactness
+}
@@ -0,0 +1,159 @@
+// src/lib/stripe/schedulePlanner.ts
+import { startOfMonthEpoch } from "../date/utcMonth";
+import { serviceTimeZone, zonedParts } from "../date/zoned";
+import { readChunkedMeta, rewriteChunkedMeta } from "./metadata";
+import type { PhaseItem, SchedulePhase } from "./scheduleEngine";
+
+/**
+ * Fits an engine timeline into what Stripe accepts. A schedule holds at most 10
+ * phases, and staggered properties can produce more than that over a year, so
+ * only a rolling horizon is sent: the phases that start within the next
+ * SCHEDULE_HORIZON_MONTHS (and fit under the cap), then an open-ended tail with
+ * the timeline's final (base-only) items. Everything after the cut is returned
+ * as `pending` and stored in `phases_pending` metadata for the maintenance job to
+ * append once earlier phases have run off.
+ *
+ * If the job never runs, the customer stays on base service after the horizon:
+ * under-billed rather than billed for a season they are not getting.
+ */
+
+export const STRIPE_MAX_PHASES = 10;
+export const SCHEDULE_HORIZON_MONTHS = 12;
+
+// A phase after the horizon. It starts where the previous one ends (the first at `horizonEnd`).
+export type PendingPhase = Pick<SchedulePhase, "end_date" | "items">;
+
+export type PhasePlan = {
+  phases: SchedulePhase[]; // what goes to Stripe; the last is open-ended
+  pending: PendingPhase[]; // the rest of the timeline, in order
+  horizonEnd: number | null; // where `phases` stop following the timeline; null = complete
+};
+
+const itemsKey = (items: PhaseItem[]) =>
+  items
+    .map((i) => `${i.price}:${i.quantity}`)
+    .sort()
+    .join(",");
+
+/** Merge adjacent phases that bill the same items the same way. */
+export function compactPhases(phases: SchedulePhase[]): SchedulePhase[] {
+  const out: SchedulePhase[] = [];
+  for (const p of phases) {
+    const last = out[out.length - 1];
+    if (
+      last &&
+      itemsKey(last.items) === itemsKey(p.items) &&
+      last.proration_behavior === p.proration_behavior
+    ) {
+      last.end_date = p.end_date;
+      if (last.end_date === undefined) delete last.end_date;
+      continue;
+    }
+    out.push({ ...p, items: p.items.map((i) => ({ ...i })) });
+  }
+  return out;
+}
+
+/** 1st of the month SCHEDULE_HORIZON_MONTHS after the anchor's month (service timezone). */
+export function horizonEndFor(
+  anchor: number,
+  months = SCHEDULE_HORIZON_MONTHS,
+  timeZone = serviceTimeZone()
+): number {
+  const d = zonedParts(anchor, timeZone);
+  return startOfMonthEpoch(d.year, d.month0 + months + 1, timeZone);
+}
+
+/**
+ * Compact `timeline` (an engine phase list: first phase carries start_date, last is
+ * open-ended) and cut it to at most `maxPhases` phases starting before `horizonEnd`.
+ */
+export function planSchedulePhases(
+  timeline: SchedulePhase[],
+  opts: { horizonEnd: number; maxPhases?: number }
+): PhasePlan {
+  const maxPhases = opts.maxPhases ?? STRIPE_MAX_PHASES;
+  const phases = compactPhases(timeline);
+  if (phases.length < 2) return { phases, pending: [], horizonEnd: null };
+
+  // Phase i starts where phase i-1 ends.
+  const startOf = (i: number) => (i === 0 ? phases[0].start_date : phases[i - 1].end_date) ?? 0;
+  let withinHorizon = 1;
+  while (withinHorizon < phases.length && startOf(withinHorizon) < opts.horizonEnd) {
+    withinHorizon++;
+  }
+  if (withinHorizon === phases.length && phases.length <= maxPhases) {
+    return { phases, pending: [], horizonEnd: null };
+  }
+
+  // Keep k dated phases and leave the last slot for the tail.
+  let keep = Math.max(1, Math.min(withinHorizon, maxPhases - 1));
+  const tail = phases[phases.length - 1];
+  // A last kept phase billing the tail's items would merge into it; defer it instead,
+  // so horizonEnd is always where the sent tail starts.
+  while (keep > 1 && itemsKey(phases[keep - 1].items) === itemsKey(tail.items)) keep--;
+  const planned = [
+    ...phases.slice(0, keep),
+    { items: tail.items, proration_behavior: tail.proration_behavior },
+  ];
+  return {
+    phases: planned,
+    pending: phases.slice(keep).map((p) => ({
+      ...(p.end_date !== undefined && { end_date: p.end_date }),
+      items: p.items,
+    })),
+    horizonEnd: phases[keep - 1].end_date ?? null,
+  };
+}
+
+/** Throws before a schedule with more phases than Stripe allows is sent. */
+export function assertPhaseLimit(phases: unknown[], maxPhases = STRIPE_MAX_PHASES): void {
+  if (phases.length > maxPhases) {
+    throw new Error(
+      `Schedule has ${phases.length} phases; Stripe allows at most ${maxPhases}`
+    );
+  }
+}
+
+// ---- phases_pending metadata ----
+// Shape: { h: horizonEnd, p: [[end_date | 0, [[price, quantity], ...]], ...] } (0 = open-ended)
+
+/**
+ * Metadata fields recording the deferred part of a plan. A complete plan writes
+ * empty values, which clears anything left from an earlier plan (empty values
+ * delete keys in a Stripe metadata update).
+ */
+export function pendingPhasesMetadata(
+  plan: PhasePlan,
+  previous?: Record<string, string> | null
+): Record<string, string> {
+  if (!plan.pending.length || plan.horizonEnd == null) {
+    return { ...rewriteChunkedMeta(previous, "phases_pending", null), schedule_horizon: "" };
+  }
+  const json = JSON.stringify({
+    h: plan.horizonEnd,
+    p: plan.pending.map((p) => [p.end_date ?? 0, p.items.map((i) => [i.price, i.quantity])]),
+  });
+  return {
+    ...rewriteChunkedMeta(previous, "phases_pending", json),
+    schedule_horizon: String(plan.horizonEnd),
+  };
+}
+
+export function readPendingPhasesFromMeta(
+  meta?: Record<string, string> | null
+): { horizonEnd: number; pending: PendingPhase[] } | null {
+  const joined = readChunkedMeta(meta, "phases_pending");
+  if (!joined) return null;
+  try {
+    const parsed = JSON.parse(joined) as { h?: unknown; p?: unknown };
+    if (typeof parsed.h !== "number" || !Array.isArray(parsed.p)) return null;
+    const pending: PendingPhase[] = parsed.p.map((entry: [number, Array<[string, number]>]) => ({
+      ...(entry[0] > 0 && { end_date: Number(entry[0]) }),
+      items: entry[1].map(([price, quantity]) => ({ price: String(price), quantity: Number(quantity) })),
+    }));
+    return { horizonEnd: parsed.h, pending };
+  } catch {
+    return null;
+  }
+}
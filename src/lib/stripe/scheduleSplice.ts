@@ -0,0 +1,111 @@
+// src/lib/stripe/scheduleSplice.ts
+import type Stripe from "stripe";
+import { zonedMidnightEpoch, zonedParts } from "../date/zoned";
+import { PRORATION_BEHAVIOR } from "./constants";
+import type { PhaseItem, ProrationBehavior, SchedulePhase } from "./scheduleEngine";
+import {
+  assertPhaseLimit,
+  horizonEndFor,
+  planSchedulePhases,
+  readPendingPhasesFromMeta,
+  type PhasePlan,
+} from "./schedulePlanner";
+
+/**
+ * Rewriting the future of a live schedule without touching its past. Used by the
+ * evergreen extender (append after the tail) and the drift repair (replace from
+ * tomorrow on).
+ */
+
+/** A retrieved schedule phase in engine form (item metadata kept). */
+export const toSchedulePhase = (p: Stripe.SubscriptionSchedule.Phase): SchedulePhase => ({
+  start_date: p.start_date,
+  ...(typeof p.end_date === "number" && { end_date: p.end_date }),
+  items: (p.items ?? []).map((i) => ({
+    price: typeof i.price === "string" ? i.price : i.price.id,
+    quantity: i.quantity ?? 0,
+    ...(i.metadata && Object.keys(i.metadata).length > 0 && { metadata: i.metadata }),
+  })),
+  proration_behavior: (p.proration_behavior ?? PRORATION_BEHAVIOR) as ProrationBehavior,
+});
+
+/** Local midnight after `now` in the service timezone: the earliest a rewrite takes effect. */
+export function nextLocalMidnight(now: number): number {
+  const d = zonedParts(now);
+  return zonedMidnightEpoch(d.year, d.month0, d.day + 1);
+}
+
+/** Phases with explicit start and end (null = open-ended). */
+export function phaseSpans(
+  phases: SchedulePhase[]
+): Array<{ start: number; end: number | null; items: PhaseItem[] }> {
+  const out: Array<{ start: number; end: number | null; items: PhaseItem[] }> = [];
+  let start = phases[0]?.start_date ?? 0;
+  for (const p of phases) {
+    out.push({ start: p.start_date ?? start, end: p.end_date ?? null, items: p.items });
+    if (p.end_date != null) start = p.end_date;
+  }
+  return out;
+}
+
+/**
+ * The whole planned timeline: live phases, with the open tail replaced by the
+ * `phases_pending` remainder when that was cut at the tail's start.
+ */
+export function withPendingPhases(
+  existing: SchedulePhase[],
+  meta?: Record<string, string> | null
+): SchedulePhase[] {
+  const stored = readPendingPhasesFromMeta(meta);
+  const tail = existing[existing.length - 1];
+  if (!stored || !tail || stored.horizonEnd !== tail.start_date) return existing;
+  return [
+    ...existing.slice(0, -1),
+    ...stored.pending.map((p) => ({ ...p, proration_behavior: PRORATION_BEHAVIOR })),
+  ];
+}
+
+/**
+ * Keep `existing` up to `anchor` (the phase running at the anchor now ends there;
+ * a last phase that ended earlier counts as running), then continue with
+ * `continuation` from the anchor, and fit the not-yet-ended part into Stripe's
+ * limits with the planner. Phases that ended before `now` are passed back
+ * unchanged. Only the first phase of the result carries a start_date.
+ */
+export function spliceSchedule(
+  existing: SchedulePhase[],
+  continuation: SchedulePhase[],
+  opts: { now: number; anchor: number }
+): PhasePlan {
+  const { now, anchor } = opts;
+  const kept: SchedulePhase[] = [];
+  for (const span of phaseSpans(existing)) {
+    if (span.start >= anchor) break;
+    const phase = existing[kept.length];
+    // The last phase runs on after its end (the schedule releases with its items).
+    const endsAfter =
+      span.end == null || span.end > anchor || kept.length === existing.length - 1;
+    kept.push({ ...phase, start_date: span.start, end_date: endsAfter ? anchor : span.end! });
+    if (endsAfter) break;
+  }
+
+  const past = kept.filter((p) => p.end_date! <= now);
+  const live = kept.filter((p) => p.end_date! > now);
+  const next = continuation.map((p, i) => {
+    if (i > 0 || !live.length) return p;
+    const rest = { ...p };
+    delete rest.start_date; // starts where the kept phases end
+    return rest;
+  });
+  if (!live.length && next.length) next[0] = { ...next[0], start_date: anchor };
+
+  const plan = planSchedulePhases([...live, ...next], { horizonEnd: horizonEndFor(now) });
+  const phases = [...past, ...plan.phases].map((p, i) => {
+    if (i === 0) return p;
+    const rest = { ...p };
+    delete rest.start_date;
+    return rest;
+  });
+  assertPhaseLimit(phases.filter((p) => p.end_date == null || p.end_date > now));
+  return { ...plan, phases };
+}
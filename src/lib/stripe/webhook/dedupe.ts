@@ -21,3 +21,7 @@ export async function alreadyProcessed(id: string): Promise<boolean> {
   return false;
 }
 
+/** Let a retry of an event whose handler failed run again. */
+export function forgetProcessed(id: string): void {
+  seen.delete(id);
+}
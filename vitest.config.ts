@@ -0,0 +1,13 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+    // Pin the service zone so DST expectations don't depend on the machine
+    env: { NEXT_PUBLIC_SERVICE_TIMEZONE: "America/New_York" },
+  },
+});